@@ -1,9 +1,22 @@
-import { useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { Navbar } from "@/components/Navbar"
 import { ChessBoardPanel } from "@/components/ChessBoardPanel"
 import { MoveListPanel } from "@/components/MoveListPanel"
 import { NavigationControls } from "@/components/NavigationControls"
 import { UploadDialog } from "@/components/UploadDialog"
+import { GameHeaderCard } from "@/components/GameHeaderCard"
+import { EngineAnalysisPanel } from "@/components/EngineAnalysisPanel"
+import { EvaluationGraph } from "@/components/EvaluationGraph"
+import { PositionSearchPanel } from "@/components/PositionSearchPanel"
+import { OpeningExplorerPanel } from "@/components/OpeningExplorerPanel"
+import { RepertoirePanel } from "@/components/RepertoirePanel"
+import { GuessTheMovePanel } from "@/components/GuessTheMovePanel"
+import { PuzzlePanel } from "@/components/PuzzlePanel"
+import { ScoresheetPanel } from "@/components/ScoresheetPanel"
+import { GameReportDialog } from "@/components/GameReportDialog"
+import { LibrarySidebar } from "@/components/LibrarySidebar"
+import { LibrarySearchDialog } from "@/components/LibrarySearchDialog"
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -15,41 +28,290 @@ import {
 } from "@/components/ui/alert-dialog"
 import { useChessGame } from "@/hooks/useChessGame"
 import { useAutoPlay } from "@/hooks/useAutoPlay"
+import { useEngineAnalysis } from "@/hooks/useEngineAnalysis"
+import { useGameReview } from "@/hooks/useGameReview"
+import { useBoardOrientation } from "@/hooks/useBoardOrientation"
+import { useGameLibrary } from "@/hooks/useGameLibrary"
+import { useRepertoire } from "@/hooks/useRepertoire"
+import { useRepertoireDrill } from "@/hooks/useRepertoireDrill"
+import { useGuessTheMove } from "@/hooks/useGuessTheMove"
+import { usePuzzles, type GenerationResult } from "@/hooks/usePuzzles"
+import { usePuzzleSolver } from "@/hooks/usePuzzleSolver"
+import { buildCandidateArrows } from "@/lib/evaluation"
+import { getPgnFileName, type PgnExportOptions } from "@/lib/pgnExport"
+import { getNodePath, getRootNode } from "@/lib/moveTree"
+import { truncateMoveHistory, type GuessSide } from "@/lib/guessTheMove"
+import { getNextPuzzle } from "@/lib/puzzles"
+import { createScoresheetLayout } from "@/lib/scoresheet"
 import { toast } from "sonner"
 import { Warning } from "@phosphor-icons/react"
-import type { Square } from "chess.js"
+import { Chess, DEFAULT_POSITION, type Square } from "chess.js"
+import type { ParseResult } from "@/lib/parseChessNotation"
+import type { ParsedGame, PromotionPiece } from "@/types/chess"
+import type { GameSource, Scoresheet, ScoresheetLayout } from "@/types/library"
+import type { Puzzle } from "@/types/puzzle"
+import type { RepertoireColor } from "@/types/repertoire"
+
+// Every hook running the engine reports a failed load; the shared id shows it once
+function reportEngineError() {
+  toast.error("The chess engine could not be loaded. Reload the page to try again.", { id: "engine-error" })
+}
 
 function App() {
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false)
   const [qualityWarning, setQualityWarning] = useState<string | null>(null)
   const [showWarningDialog, setShowWarningDialog] = useState(false)
+  const [showBestMoveArrows, setShowBestMoveArrows] = useState(true)
+  const [reportOpen, setReportOpen] = useState(false)
+  const [librarySearchOpen, setLibrarySearchOpen] = useState(false)
   const {
     gameState,
     makeMove,
     loadPgn,
+    loadGame,
+    loadPosition,
+    loadTree,
+    getTree,
+    getMetadata,
+    getNextMove,
+    revision,
+    updateMetadata,
     goToMove,
+    goToNode,
     goToFirst,
     goToPrevious,
     goToNext,
     goToLast,
     isInAnalysisMode,
+    isGameLoaded,
     returnToMainGame,
+    getMainLinePositions,
+    applyEvaluation,
+    getGameReport,
+    getPgn,
+    toggleArrowAnnotation,
+    toggleSquareAnnotation,
   } = useChessGame()
 
-  const canGoNext = gameState.currentMoveIndex < gameState.moveHistory.length * 2 - 1
+  const plyCount = gameState.moveHistory.reduce(
+    (count, row) => count + (row.white ? 1 : 0) + (row.black ? 1 : 0),
+    0
+  )
+  const canGoNext = gameState.currentMoveIndex < plyCount - 1
   
   const { isAutoPlaying, toggleAutoPlay } = useAutoPlay(
     goToNext,
     canGoNext
   )
 
+  const {
+    analysis,
+    isRunning: isEngineRunning,
+    settings: engineSettings,
+    startAnalysis,
+    stopAnalysis,
+    updateSettings: updateEngineSettings,
+  } = useEngineAnalysis(gameState.fen, reportEngineError)
+
+  const library = useGameLibrary()
+  const { currentGameId, addGame, updateGame, openGame } = library
+  const hasRestoredGameRef = useRef(false)
+  // The photo the current game was read from, if it came from a scoresheet
+  const [scoresheet, setScoresheet] = useState<Scoresheet | null>(null)
+  const savedRevisionRef = useRef(0)
+  // Library copies of games opened from a multi-game PGN, so reopening one doesn't save it twice
+  const savedDatabaseGamesRef = useRef(new WeakMap<ParsedGame, string>())
+
+  const { orientation: boardOrientation, playerName, setPlayerName, flipBoard } =
+    useBoardOrientation(gameState.metadata)
+
+  const { isReviewing, progress: reviewProgress, startReview, cancelReview } =
+    useGameReview(applyEvaluation, reportEngineError)
+
+  const repertoire = useRepertoire()
+  const { recordResult } = repertoire
+  const handleDrillLineFinished = useCallback(
+    (color: RepertoireColor, leafId: string, correct: boolean) => {
+      recordResult(color, leafId, correct).catch(() => toast.error("Could not save the repertoire"))
+    },
+    [recordResult]
+  )
+  const drill = useRepertoireDrill(repertoire.repertoires, handleDrillLineFinished)
+
+  const guess = useGuessTheMove(gameState.fen, getNextMove, goToNode, reportEngineError)
+  // While training, the move list and graph only show moves already on the board
+  const visibleMoveHistory = guess.isTraining
+    ? truncateMoveHistory(gameState.moveHistory, gameState.currentMoveIndex)
+    : gameState.moveHistory
+
+  const puzzleLibrary = usePuzzles(reportEngineError)
+  const { recordAttempt } = puzzleLibrary
+  const [activePuzzleId, setActivePuzzleId] = useState<string | null>(null)
+  const activePuzzle = puzzleLibrary.puzzles.find((puzzle) => puzzle.id === activePuzzleId) ?? null
+  const handlePuzzleAttempt = useCallback(
+    (id: string, solved: boolean) => {
+      recordAttempt(id, solved).catch(() => toast.error("Could not save the puzzle"))
+    },
+    [recordAttempt]
+  )
+  const solver = usePuzzleSolver(activePuzzle, handlePuzzleAttempt)
+
+  const reportPuzzleGeneration = ({ created, cancelled }: GenerationResult, emptyMessage?: string) => {
+    if (cancelled) {
+      toast.error(`Puzzle search cancelled${created > 0 ? ` after ${created} new puzzle(s)` : ""}`)
+    } else if (created > 0) {
+      toast.success(`Found ${created} new puzzle(s)`)
+    } else if (emptyMessage) {
+      toast.success(emptyMessage)
+    }
+  }
+
+  const handleReviewClick = () => {
+    const gameId = currentGameId
+    const reviewedTree = getTree()
+    void startReview(getMainLinePositions()).then((completed) => {
+      // Evaluations are written once at the end, including those of a review cut short
+      if (gameId) {
+        updateGame(gameId, reviewedTree).catch(() => toast.error("Could not save the game to the library"))
+      }
+      if (completed) {
+        toast.success("Game review complete!")
+      }
+      // Mistakes in a saved game become puzzles, unless another game was loaded meanwhile
+      if (!completed || !gameId || getTree() !== reviewedTree) return
+      const name = library.games.find((game) => game.id === gameId)?.name ?? "Untitled game"
+      puzzleLibrary.generatePuzzles([{ id: gameId, name, tree: reviewedTree }]).then(
+        (result) => reportPuzzleGeneration(result),
+        () => toast.error("Could not save the puzzles")
+      )
+    })
+  }
+
+  // gameState changes with every evaluation the review stores, keeping an open report current
+  const gameReport = useMemo(
+    () => (reportOpen ? getGameReport() : null),
+    [reportOpen, getGameReport, gameState]
+  )
+
+  const handleTurningPointClick = (nodeId: string) => {
+    goToNode(nodeId)
+    setReportOpen(false)
+  }
+
+  // Live engine output wins; otherwise fall back to the evaluation stored by a review
+  const currentEvaluation = (analysis?.fen === gameState.fen ? analysis.lines[0]?.score : null)
+    ?? gameState.evaluation
+    ?? null
+  const bestMoveArrows = useMemo(
+    () =>
+      showBestMoveArrows && isEngineRunning && analysis?.fen === gameState.fen
+        ? buildCandidateArrows(analysis.lines)
+        : [],
+    [showBestMoveArrows, isEngineRunning, analysis, gameState.fen]
+  )
+
+  const handleDownloadPgn = (options: PgnExportOptions) => {
+    const blob = new Blob([getPgn(options)], { type: "application/x-chess-pgn" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = getPgnFileName(gameState.metadata)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleCopyPgn = (options: PgnExportOptions) => {
+    navigator.clipboard.writeText(getPgn(options)).then(
+      () => toast.success("PGN copied to clipboard"),
+      () => toast.error("Could not access the clipboard")
+    )
+  }
+
+  // Reopen whatever was on the board before the page was reloaded
+  useEffect(() => {
+    if (hasRestoredGameRef.current) return
+    hasRestoredGameRef.current = true
+    if (!currentGameId) return
+
+    openGame(currentGameId)
+      .then((game) => {
+        if (game) {
+          loadTree(game.tree, game.metadata)
+          setScoresheet(game.scoresheet ?? null)
+        }
+      })
+      .catch(() => toast.error("Could not open the game library"))
+  }, [currentGameId, openGame, loadTree])
+
+  // Every change to a saved game (moves, analysis, drawings, details) is written straight back
+  useEffect(() => {
+    if (revision === savedRevisionRef.current) return
+    savedRevisionRef.current = revision
+    if (!currentGameId) return
+
+    updateGame(currentGameId, getTree(), getMetadata()).catch(() => {
+      toast.error("Could not save the game to the library")
+    })
+  }, [revision, currentGameId, updateGame, getTree, getMetadata])
+
+  const saveToLibrary = (source: GameSource, sheet?: Scoresheet) => {
+    setScoresheet(sheet ?? null)
+    return addGame(getTree(), getMetadata(), source, sheet).catch(() => {
+      toast.error("Could not save the game to the library")
+      return null
+    })
+  }
+
+  const handleOpenLibraryGame = (id: string, nodeId?: string) => {
+    cancelReview()
+    // Training follows the loaded game, so another game ends the session
+    guess.stopTraining()
+    openGame(id)
+      .then((game) => {
+        if (game) {
+          loadTree(game.tree, game.metadata)
+          setScoresheet(game.scoresheet ?? null)
+          if (nodeId) goToNode(nodeId)
+        } else {
+          toast.error("That game is no longer in the library")
+        }
+      })
+      .catch(() => toast.error("Could not open the game"))
+  }
+
+  const handleDuplicateLibraryGame = (id: string) => {
+    library.duplicateGame(id)
+      .then((game) => game && toast.success(`Saved "${game.name}"`))
+      .catch(() => toast.error("Could not duplicate the game"))
+  }
+
   const handleUploadClick = () => {
     setUploadDialogOpen(true)
   }
 
-  const handleGameLoaded = (pgn: string, warning?: string) => {
-    const success = loadPgn(pgn)
+  const handleGameLoaded = (result: ParseResult) => {
+    const savedId = result.game && savedDatabaseGamesRef.current.get(result.game)
+    if (savedId && library.games.some(({ id }) => id === savedId)) {
+      handleOpenLibraryGame(savedId)
+      setUploadDialogOpen(false)
+      return
+    }
+
+    cancelReview()
+    guess.stopTraining()
+    const success = result.game
+      ? loadGame(result.game, result.metadata)
+      : loadPgn(result.pgn ?? "", result.metadata)
+    const warning = result.imageQualityWarning
     if (success) {
+      const sheet = result.image && {
+        image: result.image,
+        layout: createScoresheetLayout(Math.max(result.totalMovesInImage ?? 0, result.movesFound ?? 0)),
+      }
+      const { game } = result
+      void saveToLibrary(result.source ?? "pgn", sheet).then((saved) => {
+        if (saved && game) savedDatabaseGamesRef.current.set(game, saved.id)
+      })
       toast.success("Game loaded successfully!")
       setUploadDialogOpen(false)
       
@@ -66,82 +328,355 @@ function App() {
     }
   }
 
-  const handlePieceDrop = (sourceSquare: Square, targetSquare: Square) => {
-    const success = makeMove(sourceSquare, targetSquare)
+  // Scoresheet games start from the initial position, so rows follow full moves
+  const currentMoveNumber = gameState.currentMoveIndex >= 0 ? Math.floor(gameState.currentMoveIndex / 2) + 1 : null
+
+  const handleScoresheetLayoutChange = (layout: ScoresheetLayout) => {
+    if (!scoresheet) return
+    const sheet = { ...scoresheet, layout }
+    setScoresheet(sheet)
+    if (currentGameId) {
+      library.updateScoresheet(currentGameId, sheet).catch(() => toast.error("Could not save the scoresheet"))
+    }
+  }
+
+  const handlePositionLoaded = (fen: string) => {
+    cancelReview()
+    guess.stopTraining()
+    if (loadPosition(fen)) {
+      void saveToLibrary("fen")
+      toast.success("Position loaded successfully!")
+      setUploadDialogOpen(false)
+    } else {
+      toast.error("Failed to load position. Please check the FEN.")
+    }
+  }
+
+  const handlePieceDrop = (sourceSquare: Square, targetSquare: Square, promotion?: PromotionPiece) => {
+    const success = makeMove(sourceSquare, targetSquare, promotion)
     if (!success) {
       toast.error("Illegal move")
     }
     return success
   }
 
+  const handleExplorerMove = (san: string) => {
+    // Guesses go through the training session, never straight onto the board
+    if (guess.isTraining) return
+    const move = new Chess(gameState.fen).moves({ verbose: true }).find((candidate) => candidate.san === san)
+    if (!move || !makeMove(move.from, move.to, move.promotion as PromotionPiece | undefined)) {
+      toast.error("Illegal move")
+    }
+  }
+
+  // gameState changes whenever the current move or the game does
+  const currentLine = useMemo(
+    () => getNodePath(getTree(), gameState.currentNodeId).map(({ san }) => san),
+    [getTree, gameState]
+  )
+  const canAddRepertoireLine = useMemo(
+    () => currentLine.length > 0 && getRootNode(getTree()).fen === DEFAULT_POSITION,
+    [currentLine, getTree]
+  )
+
+  const handleAddRepertoireLine = (color: RepertoireColor) => {
+    repertoire.addLine(color, getRootNode(getTree()).fen, currentLine).then(
+      (added) => added && toast.success(`Added to your ${color === "white" ? "White" : "Black"} repertoire`),
+      () => toast.error("Could not save the repertoire")
+    )
+  }
+
+  const handleRemoveRepertoireLine = (color: RepertoireColor) => {
+    repertoire.removeLine(color, currentLine).catch(() => toast.error("Could not save the repertoire"))
+  }
+
+  const handleStartDrill = (color: RepertoireColor) => {
+    guess.stopTraining()
+    setActivePuzzleId(null)
+    if (!drill.startDrill(color)) {
+      toast.success("No lines are due. Come back later for the next review.")
+    }
+  }
+
+  const handleStartTraining = (side: GuessSide, weighted: boolean) => {
+    drill.stopDrill()
+    setActivePuzzleId(null)
+    stopAnalysis()
+    if (isAutoPlaying) toggleAutoPlay()
+    // Training follows the game itself, never a side variation
+    returnToMainGame()
+    guess.startTraining(side, weighted)
+  }
+
+  const handleStartPuzzle = (id: string) => {
+    drill.stopDrill()
+    guess.stopTraining()
+    setActivePuzzleId(id)
+  }
+
+  const handleNextPuzzle = () => {
+    const next = getNextPuzzle(puzzleLibrary.puzzles, activePuzzleId)
+    if (next) handleStartPuzzle(next.id)
+  }
+
+  const handleOpenPuzzleGame = ({ gameId, nodeId }: Puzzle) => {
+    setActivePuzzleId(null)
+    handleOpenLibraryGame(gameId, nodeId)
+  }
+
+  const handleScanLibrary = () => {
+    puzzleLibrary.scanLibrary().then(
+      (result) => reportPuzzleGeneration(result, "No new puzzles. Review more games to find some."),
+      () => toast.error("Could not read the game library")
+    )
+  }
+
   const handleMoveClick = (moveIndex: number) => {
     goToMove(moveIndex)
   }
 
   return (
-    <div className="min-h-screen bg-background">
-      <Navbar onUploadClick={handleUploadClick} />
-
-      <main className="container mx-auto p-6">
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <div className="lg:col-span-2 flex flex-col gap-6">
-            <ChessBoardPanel
-              position={gameState.fen}
-              onPieceDrop={handlePieceDrop}
-              isAnalysisMode={isInAnalysisMode}
-              checkSquare={gameState.checkSquare}
-              lastMove={gameState.lastMove}
-            />
-            <NavigationControls
-              onFirst={goToFirst}
-              onPrevious={goToPrevious}
-              onNext={goToNext}
-              onLast={goToLast}
-              onToggleAutoPlay={toggleAutoPlay}
-              onReturnToMainGame={returnToMainGame}
-              isAutoPlaying={isAutoPlaying}
-              isAnalysisMode={isInAnalysisMode}
-              disabled={gameState.moveHistory.length === 0}
-            />
-          </div>
+    <SidebarProvider defaultOpen={false}>
+      <LibrarySidebar
+        games={library.games}
+        currentGameId={currentGameId}
+        isLoading={library.isLoading}
+        onOpen={handleOpenLibraryGame}
+        onEditDetails={(id, details) => {
+          library.updateGameDetails(id, details).catch(() => toast.error("Could not update the game"))
+        }}
+        onSearchClick={() => setLibrarySearchOpen(true)}
+        onDuplicate={handleDuplicateLibraryGame}
+        onDelete={(id) => {
+          library.removeGame(id).catch(() => toast.error("Could not delete the game"))
+        }}
+      />
+      <SidebarInset className="min-h-screen">
+        <Navbar
+          onUploadClick={handleUploadClick}
+          onReportClick={() => setReportOpen(true)}
+          canShowReport={isGameLoaded}
+          playerName={playerName}
+          onPlayerNameChange={setPlayerName}
+          onDownloadPgn={handleDownloadPgn}
+          onCopyPgn={handleCopyPgn}
+          canExport={gameState.moveHistory.length > 0}
+        />
+
+        <div className="container mx-auto p-6">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 flex flex-col gap-6">
+              <GameHeaderCard
+                metadata={gameState.metadata}
+                onMetadataChange={updateMetadata}
+              />
+              {activePuzzle && solver.fen ? (
+                <ChessBoardPanel
+                  position={solver.fen}
+                  onPieceDrop={solver.handleMove}
+                  lastMove={solver.lastMove}
+                  boardOrientation={solver.orientation}
+                  arrows={solver.hintArrows}
+                  annotations={solver.hintAnnotations}
+                />
+              ) : drill.drillColor ? (
+                <ChessBoardPanel
+                  position={drill.drillFen}
+                  onPieceDrop={drill.handleMove}
+                  lastMove={drill.drillLastMove}
+                  boardOrientation={drill.drillColor}
+                  arrows={drill.hintArrows}
+                />
+              ) : (
+                <ChessBoardPanel
+                  position={gameState.fen}
+                  onPieceDrop={guess.isTraining ? guess.handleGuess : handlePieceDrop}
+                  isAnalysisMode={isInAnalysisMode}
+                  checkSquare={gameState.checkSquare}
+                  lastMove={gameState.lastMove}
+                  evaluation={guess.isTraining ? null : currentEvaluation}
+                  boardOrientation={boardOrientation}
+                  arrows={guess.isTraining ? undefined : bestMoveArrows}
+                  annotations={gameState.annotations}
+                  onArrowAnnotation={toggleArrowAnnotation}
+                  onSquareAnnotation={toggleSquareAnnotation}
+                />
+              )}
+              <NavigationControls
+                onFirst={goToFirst}
+                onPrevious={goToPrevious}
+                onNext={goToNext}
+                onLast={goToLast}
+                onToggleAutoPlay={toggleAutoPlay}
+                onReturnToMainGame={returnToMainGame}
+                onFlipBoard={flipBoard}
+                isAutoPlaying={isAutoPlaying}
+                isAnalysisMode={isInAnalysisMode}
+                disabled={
+                  gameState.moveHistory.length === 0 || drill.isDrilling || guess.isTraining || activePuzzle !== null
+                }
+              />
+              {scoresheet && !guess.isTraining && (
+                <ScoresheetPanel
+                  scoresheet={scoresheet}
+                  currentMoveNumber={currentMoveNumber}
+                  onLayoutChange={handleScoresheetLayoutChange}
+                />
+              )}
+              {gameState.moveHistory.length > 0 && !guess.isTraining && (
+                <EvaluationGraph
+                  moves={gameState.moveHistory}
+                  currentMoveIndex={gameState.currentMoveIndex}
+                  onMoveClick={handleMoveClick}
+                />
+              )}
+            </div>
 
-          <div className="lg:col-span-1">
-            <MoveListPanel
-              moves={gameState.moveHistory}
-              currentMoveIndex={gameState.currentMoveIndex}
-              onMoveClick={handleMoveClick}
-            />
+            <div className="lg:col-span-1 flex flex-col gap-6">
+              {/* The engine would give the answers away while guessing */}
+              {!guess.isTraining && (
+                <EngineAnalysisPanel
+                  fen={gameState.fen}
+                  analysis={analysis}
+                  isRunning={isEngineRunning}
+                  settings={engineSettings}
+                  onStart={startAnalysis}
+                  onStop={stopAnalysis}
+                  onSettingsChange={updateEngineSettings}
+                  showArrows={showBestMoveArrows}
+                  onShowArrowsChange={setShowBestMoveArrows}
+                />
+              )}
+              <GuessTheMovePanel
+                isTraining={guess.isTraining}
+                isFinished={guess.isFinished}
+                isUserTurn={guess.isUserTurn}
+                isEvaluating={guess.isEvaluating}
+                canStart={canGoNext && !drill.isDrilling}
+                results={guess.results}
+                score={guess.score}
+                maxScore={guess.maxScore}
+                onStart={handleStartTraining}
+                onStop={guess.stopTraining}
+              />
+              <MoveListPanel
+                moves={visibleMoveHistory}
+                currentMoveIndex={gameState.currentMoveIndex}
+                onMoveClick={guess.isTraining ? () => undefined : handleMoveClick}
+                variations={guess.isTraining ? [] : gameState.variations}
+                onVariationClick={goToNode}
+                comment={gameState.comment}
+                opening={gameState.opening}
+                canReview={isGameLoaded}
+                isReviewing={isReviewing}
+                reviewProgress={reviewProgress}
+                onReviewClick={handleReviewClick}
+                onCancelReview={cancelReview}
+              />
+              <RepertoirePanel
+                repertoires={repertoire.repertoires}
+                currentLine={currentLine}
+                canAddLine={canAddRepertoireLine}
+                onAddLine={handleAddRepertoireLine}
+                onRemoveLine={handleRemoveRepertoireLine}
+                onStartDrill={handleStartDrill}
+                drillColor={drill.drillColor}
+                drillStep={drill.drillStep}
+                drillLength={drill.drillLength}
+                isUserTurn={drill.isUserTurn}
+                feedback={drill.feedback}
+                onStopDrill={drill.stopDrill}
+              />
+              <PuzzlePanel
+                puzzles={puzzleLibrary.puzzles}
+                activePuzzle={activePuzzle}
+                status={solver.status}
+                isSolverTurn={solver.isSolverTurn}
+                canHint={solver.canHint}
+                isGenerating={puzzleLibrary.isGenerating}
+                generationProgress={puzzleLibrary.progress}
+                onCancelGeneration={puzzleLibrary.cancelGeneration}
+                onStart={handleStartPuzzle}
+                onHint={solver.showHint}
+                onRetry={solver.retry}
+                onNext={handleNextPuzzle}
+                onStop={() => setActivePuzzleId(null)}
+                onOpenGame={handleOpenPuzzleGame}
+                onRemove={(id) => {
+                  if (id === activePuzzleId) setActivePuzzleId(null)
+                  puzzleLibrary.removePuzzle(id).catch(() => toast.error("Could not delete the puzzle"))
+                }}
+                onScanLibrary={handleScanLibrary}
+              />
+              {/* Moves other games played here would give the answers away while guessing */}
+              {!guess.isTraining && (
+                <>
+                  <OpeningExplorerPanel
+                    fen={gameState.fen}
+                    games={library.games}
+                    currentGameId={currentGameId}
+                    onMoveClick={handleExplorerMove}
+                  />
+                  <PositionSearchPanel
+                    fen={gameState.fen}
+                    games={library.games}
+                    currentGameId={currentGameId}
+                    onOpen={handleOpenLibraryGame}
+                  />
+                </>
+              )}
+            </div>
           </div>
         </div>
-      </main>
 
-      <UploadDialog
-        open={uploadDialogOpen}
-        onOpenChange={setUploadDialogOpen}
-        onGameLoaded={handleGameLoaded}
-      />
+        <LibrarySearchDialog
+          open={librarySearchOpen}
+          onOpenChange={setLibrarySearchOpen}
+          games={library.games}
+          currentGameId={currentGameId}
+          onOpen={handleOpenLibraryGame}
+        />
+
+        <GameReportDialog
+          open={reportOpen}
+          onOpenChange={setReportOpen}
+          report={gameReport}
+          metadata={gameState.metadata}
+          isReviewing={isReviewing}
+          reviewProgress={reviewProgress}
+          onReviewClick={handleReviewClick}
+          onTurningPointClick={handleTurningPointClick}
+        />
+
+        <UploadDialog
+          open={uploadDialogOpen}
+          onOpenChange={setUploadDialogOpen}
+          onGameLoaded={handleGameLoaded}
+          onPositionLoaded={handlePositionLoaded}
+        />
       
-      <AlertDialog open={showWarningDialog} onOpenChange={setShowWarningDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <div className="flex items-center gap-3 mb-2">
-              <div className="p-2 bg-yellow-100 dark:bg-yellow-900/30 rounded-full">
-                <Warning size={24} weight="fill" className="text-yellow-600 dark:text-yellow-500" />
+        <AlertDialog open={showWarningDialog} onOpenChange={setShowWarningDialog}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <div className="flex items-center gap-3 mb-2">
+                <div className="p-2 bg-yellow-100 dark:bg-yellow-900/30 rounded-full">
+                  <Warning size={24} weight="fill" className="text-yellow-600 dark:text-yellow-500" />
+                </div>
+                <AlertDialogTitle>Image Quality Warning</AlertDialogTitle>
               </div>
-              <AlertDialogTitle>Image Quality Warning</AlertDialogTitle>
-            </div>
-            <AlertDialogDescription className="text-base">
-              {qualityWarning}
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogAction onClick={() => setShowWarningDialog(false)}>
-              Okay, I Understand
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
-    </div>
+              <AlertDialogDescription className="text-base">
+                {qualityWarning}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogAction onClick={() => setShowWarningDialog(false)}>
+                Okay, I Understand
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SidebarInset>
+    </SidebarProvider>
   )
 }
 
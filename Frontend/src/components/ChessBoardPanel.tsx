@@ -1,18 +1,84 @@
-import { useMemo, useCallback, useState, useEffect } from "react"
-import type { CSSProperties } from "react"
+import { useMemo, useCallback, useState, useEffect, useRef } from "react"
+import type { CSSProperties, MouseEvent } from "react"
 import { Card } from "@/components/ui/card"
-import { Chessboard } from "react-chessboard"
+import { Chessboard, defaultPieces } from "react-chessboard"
 import { Chess } from "chess.js"
 import type { Square, Move } from "chess.js"
-import type { PieceDropHandlerArgs, SquareHandlerArgs, PieceHandlerArgs } from "react-chessboard/dist/types"
-import type { LastMove } from "@/types/chess"
+import type { Arrow, PieceDropHandlerArgs, SquareHandlerArgs, PieceHandlerArgs } from "react-chessboard"
+import type {
+  ArrowAnnotation,
+  BoardAnnotations,
+  LastMove,
+  PromotionPiece,
+  SquareAnnotation,
+} from "@/types/chess"
+import type { EngineScore } from "@/types/engine"
+import { EvaluationBar } from "@/components/EvaluationBar"
+import { ANNOTATION_COLORS, annotationsToArrows, getAnnotationColor } from "@/lib/boardAnnotations"
 
 interface ChessBoardPanelProps {
   position: string
-  onPieceDrop: (sourceSquare: Square, targetSquare: Square) => boolean
+  onPieceDrop: (sourceSquare: Square, targetSquare: Square, promotion?: PromotionPiece) => boolean
   isAnalysisMode?: boolean
   checkSquare?: string | null
   lastMove?: LastMove | null
+  evaluation?: EngineScore | null
+  boardOrientation?: "white" | "black"
+  arrows?: Arrow[]
+  annotations?: BoardAnnotations | null
+  onArrowAnnotation?: (arrow: ArrowAnnotation) => void
+  onSquareAnnotation?: (highlight: SquareAnnotation) => void
+}
+
+interface PendingPromotion {
+  from: Square
+  to: Square
+  color: "w" | "b"
+}
+
+const PROMOTION_CHOICES: Array<{ piece: PromotionPiece; label: string }> = [
+  { piece: "q", label: "Queen" },
+  { piece: "r", label: "Rook" },
+  { piece: "b", label: "Bishop" },
+  { piece: "n", label: "Knight" },
+]
+
+function PromotionPicker({
+  color,
+  onSelect,
+  onCancel,
+}: {
+  color: "w" | "b"
+  onSelect: (piece: PromotionPiece) => void
+  onCancel: () => void
+}) {
+  return (
+    <div
+      className="absolute inset-0 z-10 flex items-center justify-center rounded-md bg-black/40"
+      onClick={onCancel}
+    >
+      <div
+        className="flex gap-2 rounded-lg border bg-card p-3 shadow-lg"
+        onClick={(event) => event.stopPropagation()}
+      >
+        {PROMOTION_CHOICES.map(({ piece, label }) => {
+          const renderPiece = defaultPieces[`${color}${piece.toUpperCase()}`]
+          return (
+            <button
+              key={piece}
+              type="button"
+              title={label}
+              aria-label={`Promote to ${label.toLowerCase()}`}
+              onClick={() => onSelect(piece)}
+              className="size-16 rounded-md p-1 hover:bg-muted transition-colors"
+            >
+              {renderPiece()}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
 }
 
 export function ChessBoardPanel({
@@ -21,6 +87,12 @@ export function ChessBoardPanel({
   isAnalysisMode = false,
   checkSquare = null,
   lastMove = null,
+  evaluation = null,
+  boardOrientation = "white",
+  arrows = [],
+  annotations = null,
+  onArrowAnnotation,
+  onSquareAnnotation,
 }: ChessBoardPanelProps) {
   const borderClass = isAnalysisMode
     ? "border-accent border-2"
@@ -28,21 +100,14 @@ export function ChessBoardPanel({
 
   const [selectedSquare, setSelectedSquare] = useState<Square | null>(null)
   const [legalTargets, setLegalTargets] = useState<Array<{ square: Square; isCapture: boolean }>>([])
+  const [pendingPromotion, setPendingPromotion] = useState<PendingPromotion | null>(null)
+  const drawStartRef = useRef<string | null>(null)
 
   const clearHighlights = useCallback(() => {
     setSelectedSquare(null)
     setLegalTargets([])
   }, [])
 
-  const handleDrop = useCallback(({ sourceSquare, targetSquare }: PieceDropHandlerArgs) => {
-    if (!targetSquare) return false
-    const success = onPieceDrop(sourceSquare as Square, targetSquare as Square)
-    if (success) {
-      clearHighlights()
-    }
-    return success
-  }, [onPieceDrop, clearHighlights])
-
   const getLegalMoves = useCallback((square: Square) => {
     try {
       const chess = new Chess()
@@ -53,6 +118,33 @@ export function ChessBoardPanel({
     }
   }, [position])
 
+  // Promotions wait for the piece chooser instead of moving straight away
+  const tryMove = useCallback((from: Square, to: Square) => {
+    const promotionMove = getLegalMoves(from).find((move) => move.to === to && move.promotion)
+    if (promotionMove) {
+      setPendingPromotion({ from, to, color: promotionMove.color })
+      clearHighlights()
+      return false
+    }
+
+    const success = onPieceDrop(from, to)
+    if (success) {
+      clearHighlights()
+    }
+    return success
+  }, [getLegalMoves, onPieceDrop, clearHighlights])
+
+  const handlePromotionSelect = useCallback((piece: PromotionPiece) => {
+    if (!pendingPromotion) return
+    onPieceDrop(pendingPromotion.from, pendingPromotion.to, piece)
+    setPendingPromotion(null)
+  }, [pendingPromotion, onPieceDrop])
+
+  const handleDrop = useCallback(({ sourceSquare, targetSquare }: PieceDropHandlerArgs) => {
+    if (!targetSquare) return false
+    return tryMove(sourceSquare as Square, targetSquare as Square)
+  }, [tryMove])
+
   const showLegalTargets = useCallback((square: Square) => {
     const legalMoves = getLegalMoves(square)
 
@@ -78,10 +170,7 @@ export function ChessBoardPanel({
     const targetInfo = legalTargets.find((target) => target.square === normalizedSquare)
 
     if (selectedSquare && targetInfo) {
-      const moved = onPieceDrop(selectedSquare, targetInfo.square)
-      if (moved) {
-        clearHighlights()
-      }
+      tryMove(selectedSquare, targetInfo.square)
       return
     }
 
@@ -91,15 +180,36 @@ export function ChessBoardPanel({
     }
 
     showLegalTargets(normalizedSquare)
-  }, [selectedSquare, legalTargets, onPieceDrop, clearHighlights, showLegalTargets])
+  }, [selectedSquare, legalTargets, tryMove, clearHighlights, showLegalTargets])
 
   const handlePieceDrag = useCallback(({ square }: PieceHandlerArgs) => {
     if (!square) return
     showLegalTargets(square as Square)
   }, [showLegalTargets])
 
+  // Right-click on one square circles it; right-drag to another draws an arrow
+  const handleSquareMouseDown = useCallback(({ square }: SquareHandlerArgs, event: MouseEvent) => {
+    if (event.button === 2) {
+      drawStartRef.current = square
+    }
+  }, [])
+
+  const handleSquareMouseUp = useCallback(({ square }: SquareHandlerArgs, event: MouseEvent) => {
+    const start = drawStartRef.current
+    drawStartRef.current = null
+    if (event.button !== 2 || !start) return
+
+    const color = getAnnotationColor(event)
+    if (start === square) {
+      onSquareAnnotation?.({ square, color })
+    } else {
+      onArrowAnnotation?.({ from: start, to: square, color })
+    }
+  }, [onArrowAnnotation, onSquareAnnotation])
+
   useEffect(() => {
     clearHighlights()
+    setPendingPromotion(null)
   }, [position, clearHighlights])
 
   const moveHighlightStyles = useMemo(() => {
@@ -152,6 +262,13 @@ export function ChessBoardPanel({
       Object.assign(styles, moveHighlightStyles)
     }
 
+    annotations?.squares.forEach(({ square, color }) => {
+      styles[square] = {
+        ...styles[square],
+        backgroundImage: `radial-gradient(circle, transparent 58%, ${ANNOTATION_COLORS[color]} 61%, ${ANNOTATION_COLORS[color]} 69%, transparent 72%)`,
+      }
+    })
+
     if (checkSquare) {
       styles[checkSquare] = {
         boxShadow: "inset 0 0 0 3px rgba(239,68,68,0.9)",
@@ -160,11 +277,17 @@ export function ChessBoardPanel({
     }
 
     return Object.keys(styles).length ? styles : undefined
-  }, [checkSquare, moveHighlightStyles, lastMove])
+  }, [checkSquare, moveHighlightStyles, lastMove, annotations])
+
+  const boardArrows = useMemo(
+    () => [...annotationsToArrows(annotations), ...arrows],
+    [annotations, arrows]
+  )
 
   const boardOptions = useMemo(() => ({
     id: "analysis-board",
     position,
+    boardOrientation,
     allowDragging: true,
     showAnimations: true,
     animationDurationInMs: 350,
@@ -172,15 +295,40 @@ export function ChessBoardPanel({
       borderRadius: "0.375rem",
     },
     squareStyles,
+    arrows: boardArrows,
+    // Drawings are stored per position by the game, so the board's own arrow state stays off
+    allowDrawingArrows: false,
     onPieceDrop: handleDrop,
     onSquareClick: handleSquareClick,
     onPieceDrag: handlePieceDrag,
-  }), [position, handleDrop, squareStyles, handleSquareClick, handlePieceDrag])
+    onSquareMouseDown: handleSquareMouseDown,
+    onSquareMouseUp: handleSquareMouseUp,
+  }), [
+    position,
+    boardOrientation,
+    boardArrows,
+    handleDrop,
+    squareStyles,
+    handleSquareClick,
+    handlePieceDrag,
+    handleSquareMouseDown,
+    handleSquareMouseUp,
+  ])
 
   return (
     <Card className={`p-6 ${borderClass} transition-all duration-200`}>
-      <div className="w-full">
-        <Chessboard options={boardOptions} />
+      <div className="flex w-full gap-3">
+        <EvaluationBar score={evaluation} orientation={boardOrientation} />
+        <div className="relative min-w-0 flex-1">
+          <Chessboard options={boardOptions} />
+          {pendingPromotion && (
+            <PromotionPicker
+              color={pendingPromotion.color}
+              onSelect={handlePromotionSelect}
+              onCancel={() => setPendingPromotion(null)}
+            />
+          )}
+        </div>
       </div>
     </Card>
   )
@@ -0,0 +1,190 @@
+import { Cpu, Play, Stop } from "@phosphor-icons/react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import { Slider } from "@/components/ui/slider"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { formatPrincipalVariation, formatScore } from "@/lib/evaluation"
+import { cn } from "@/lib/utils"
+import type { EngineAnalysis, EngineSettings } from "@/types/engine"
+
+interface EngineAnalysisPanelProps {
+  fen: string
+  analysis: EngineAnalysis | null
+  isRunning: boolean
+  settings: EngineSettings
+  onStart: () => void
+  onStop: () => void
+  onSettingsChange: (changes: Partial<EngineSettings>) => void
+  showArrows: boolean
+  onShowArrowsChange: (show: boolean) => void
+}
+
+const MOVE_TIME_OPTIONS = [1000, 3000, 5000, 10000, 30000]
+
+export function EngineAnalysisPanel({
+  fen,
+  analysis,
+  isRunning,
+  settings,
+  onStart,
+  onStop,
+  onSettingsChange,
+  showArrows,
+  onShowArrowsChange,
+}: EngineAnalysisPanelProps) {
+  const topLine = analysis?.lines[0]
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <Cpu size={20} weight="regular" />
+          Engine
+        </h2>
+        <Button
+          size="sm"
+          variant={isRunning ? "secondary" : "default"}
+          onClick={isRunning ? onStop : onStart}
+          className="transition-all duration-200"
+        >
+          {isRunning ? (
+            <>
+              <Stop size={18} weight="regular" className="mr-2" />
+              Stop
+            </>
+          ) : (
+            <>
+              <Play size={18} weight="regular" className="mr-2" />
+              Analyze
+            </>
+          )}
+        </Button>
+      </div>
+      <Separator className="mb-4" />
+
+      <div className="flex items-baseline justify-between mb-3">
+        <span
+          className={cn(
+            "text-2xl font-bold tabular-nums",
+            !topLine && "text-muted-foreground"
+          )}
+        >
+          {topLine ? formatScore(topLine.score) : "–"}
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {isRunning
+            ? analysis
+              ? `Depth ${analysis.depth}${analysis.isComplete ? "" : "…"}`
+              : "Starting engine…"
+            : "Stopped"}
+        </span>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {analysis?.lines.map((line) => (
+          <div key={line.multiPv} className="flex gap-3 text-sm">
+            <span className="w-14 shrink-0 font-medium tabular-nums">
+              {formatScore(line.score)}
+            </span>
+            <span className="text-muted-foreground truncate">
+              {formatPrincipalVariation(fen, line.pvSan)}
+            </span>
+          </div>
+        ))}
+        {isRunning && !analysis && (
+          <p className="text-sm text-muted-foreground">
+            Stockfish runs fully offline in your browser.
+          </p>
+        )}
+      </div>
+
+      <Separator className="mb-4" />
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Limit</Label>
+          <Select
+            value={settings.limitMode}
+            onValueChange={(value) =>
+              onSettingsChange({ limitMode: value === "time" ? "time" : "depth" })
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="depth">Depth</SelectItem>
+              <SelectItem value="time">Time</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Lines</Label>
+          <Select
+            value={String(settings.multiPv)}
+            onValueChange={(value) => onSettingsChange({ multiPv: parseInt(value, 10) })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 2, 3, 4, 5].map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {settings.limitMode === "depth" ? (
+          <div className="col-span-2 space-y-3">
+            <Label>Depth: {settings.depth}</Label>
+            <Slider
+              min={8}
+              max={30}
+              step={1}
+              value={[settings.depth]}
+              onValueChange={([depth]) => onSettingsChange({ depth })}
+            />
+          </div>
+        ) : (
+          <div className="col-span-2 space-y-2">
+            <Label>Time per position</Label>
+            <Select
+              value={String(settings.moveTimeMs)}
+              onValueChange={(value) => onSettingsChange({ moveTimeMs: parseInt(value, 10) })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MOVE_TIME_OPTIONS.map((ms) => (
+                  <SelectItem key={ms} value={String(ms)}>
+                    {ms / 1000}s
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="col-span-2 flex items-center justify-between">
+          <Label htmlFor="engine-arrows">Show best-move arrows</Label>
+          <Switch
+            id="engine-arrows"
+            checked={showArrows}
+            onCheckedChange={onShowArrowsChange}
+          />
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,45 @@
+import { formatScore, scoreToWinPercent } from "@/lib/evaluation"
+import { cn } from "@/lib/utils"
+import type { EngineScore } from "@/types/engine"
+
+interface EvaluationBarProps {
+  score: EngineScore | null
+  orientation?: "white" | "black"
+}
+
+export function EvaluationBar({ score, orientation = "white" }: EvaluationBarProps) {
+  const whitePercent = score ? scoreToWinPercent(score) : 50
+  const isWhiteBetter = whitePercent >= 50
+  const isFlipped = orientation === "black"
+
+  return (
+    <div
+      className={cn(
+        "relative w-6 shrink-0 overflow-hidden rounded-md border border-border bg-neutral-800",
+        !score && "opacity-60"
+      )}
+      title={score ? formatScore(score) : "No evaluation"}
+    >
+      {/* White's share grows from White's side of the board */}
+      <div
+        className={cn(
+          "absolute inset-x-0 bg-neutral-100 transition-[height] duration-500 ease-out",
+          isFlipped ? "top-0" : "bottom-0"
+        )}
+        style={{ height: `${whitePercent}%` }}
+      />
+      <div className="absolute inset-x-0 top-1/2 h-px bg-amber-500/60" />
+      {score && (
+        <span
+          className={cn(
+            "absolute inset-x-0 text-center text-[10px] font-semibold tabular-nums",
+            isWhiteBetter !== isFlipped ? "bottom-1" : "top-1",
+            isWhiteBetter ? "text-neutral-800" : "text-neutral-100"
+          )}
+        >
+          {formatScore(score).replace(/^\+/, "")}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import { useMemo } from "react"
+import { Area, AreaChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import { ChartLine } from "@phosphor-icons/react"
+import { Card } from "@/components/ui/card"
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart"
+import { formatScore, scoreToWinPercent } from "@/lib/evaluation"
+import type { MoveClassification, MoveHistoryItem } from "@/types/chess"
+import type { EngineScore } from "@/types/engine"
+
+interface EvaluationGraphProps {
+  moves: MoveHistoryItem[]
+  currentMoveIndex: number
+  onMoveClick: (moveIndex: number) => void
+}
+
+interface GraphPoint {
+  moveIndex: number
+  label: string
+  winPercent: number | null
+  score: EngineScore | null
+  classification?: MoveClassification
+}
+
+const chartConfig = {
+  winPercent: {
+    label: "White",
+    color: "var(--foreground)",
+  },
+} satisfies ChartConfig
+
+const MARKER_COLORS: Partial<Record<MoveClassification, string>> = {
+  blunder: "#ef4444",
+  missedWin: "#a855f7",
+  mistake: "#f97316",
+}
+
+function toGraphPoints(moves: MoveHistoryItem[]): GraphPoint[] {
+  return moves
+    .flatMap((row) => [
+      row.white && { move: row.white, label: `${row.moveNumber}. ${row.white.san}` },
+      row.black && { move: row.black, label: `${row.moveNumber}... ${row.black.san}` },
+    ])
+    .filter((entry) => entry !== null)
+    .map(({ move, label }, moveIndex) => ({
+      moveIndex,
+      label,
+      winPercent: move.evaluation ? scoreToWinPercent(move.evaluation) : null,
+      score: move.evaluation ?? null,
+      classification: move.classification,
+    }))
+}
+
+export function EvaluationGraph({ moves, currentMoveIndex, onMoveClick }: EvaluationGraphProps) {
+  const points = useMemo(() => toGraphPoints(moves), [moves])
+  const hasEvaluations = points.some((point) => point.winPercent !== null)
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-semibold text-foreground flex items-center gap-2 mb-4">
+        <ChartLine size={20} weight="regular" />
+        Evaluation
+      </h2>
+
+      {!hasEvaluations ? (
+        <p className="text-sm text-muted-foreground">
+          Run Review Game to plot the evaluation of every move.
+        </p>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+          <AreaChart
+            data={points}
+            margin={{ top: 8, right: 8, bottom: 0, left: 8 }}
+            className="cursor-pointer"
+            onClick={(state) => {
+              const index = state?.activeTooltipIndex
+              if (typeof index === "number" && points[index]) {
+                onMoveClick(points[index].moveIndex)
+              }
+            }}
+          >
+            <XAxis dataKey="moveIndex" hide />
+            <YAxis domain={[0, 100]} hide />
+            <ReferenceLine y={50} stroke="var(--border)" />
+            {currentMoveIndex >= 0 && (
+              <ReferenceLine x={currentMoveIndex} stroke="#f59e0b" strokeWidth={2} />
+            )}
+            <ChartTooltip
+              cursor={{ strokeDasharray: "3 3" }}
+              content={({ active, payload }) => {
+                const point = payload?.[0]?.payload as GraphPoint | undefined
+                if (!active || !point) return null
+                return (
+                  <div className="rounded-md border bg-background px-2.5 py-1.5 text-xs shadow-md">
+                    <div className="font-medium">{point.label}</div>
+                    <div className="text-muted-foreground tabular-nums">
+                      {point.score ? formatScore(point.score) : "Not evaluated"}
+                    </div>
+                  </div>
+                )
+              }}
+            />
+            <Area
+              type="monotone"
+              dataKey="winPercent"
+              baseValue={0}
+              connectNulls
+              isAnimationActive={false}
+              stroke="var(--color-winPercent)"
+              strokeWidth={1.5}
+              fill="var(--color-winPercent)"
+              fillOpacity={0.15}
+              dot={({ cx, cy, payload, index }: { cx?: number; cy?: number; payload?: GraphPoint; index?: number }) => {
+                const color = payload?.classification && MARKER_COLORS[payload.classification]
+                // Only the costly moves get a marker; everything else stays a plain line
+                if (!color || cx === undefined || cy === undefined || payload?.winPercent === null) {
+                  return <g key={index} />
+                }
+                return <circle key={index} cx={cx} cy={cy} r={4} fill={color} stroke="var(--background)" strokeWidth={1} />
+              }}
+            />
+          </AreaChart>
+        </ChartContainer>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,123 @@
+import { useState } from "react"
+import { PencilSimple } from "@phosphor-icons/react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { METADATA_TAGS, hasMetadata } from "@/lib/gameMetadata"
+import type { GameMetadata } from "@/types/chess"
+
+interface GameHeaderCardProps {
+  metadata: GameMetadata
+  onMetadataChange: (changes: Partial<GameMetadata>) => void
+}
+
+function PlayerLabel({ name, elo }: { name?: string; elo?: string }) {
+  return (
+    <span className="font-semibold text-foreground">
+      {name || "Unknown"}
+      {elo && <span className="ml-1 text-sm font-normal text-muted-foreground">({elo})</span>}
+    </span>
+  )
+}
+
+export function GameHeaderCard({ metadata, onMetadataChange }: GameHeaderCardProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState<GameMetadata>({})
+
+  const openEditor = () => {
+    setDraft(metadata)
+    setIsEditing(true)
+  }
+
+  const handleSave = () => {
+    const changes: Partial<GameMetadata> = {}
+    for (const { field } of METADATA_TAGS) {
+      changes[field] = draft[field]?.trim() || undefined
+    }
+    onMetadataChange(changes)
+    setIsEditing(false)
+  }
+
+  const details = [metadata.event, metadata.site, metadata.date, metadata.round && `Round ${metadata.round}`, metadata.timeControl]
+    .filter(Boolean)
+    .join(" · ")
+
+  return (
+    <>
+      <Card className="px-6 py-4">
+        <div className="flex items-center justify-between gap-4">
+          {hasMetadata(metadata) ? (
+            <div className="min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <PlayerLabel name={metadata.white} elo={metadata.whiteElo} />
+                <span className="text-muted-foreground">vs</span>
+                <PlayerLabel name={metadata.black} elo={metadata.blackElo} />
+                {metadata.result && (
+                  <span className="rounded-full bg-muted px-2 py-0.5 text-xs font-medium">
+                    {metadata.result}
+                  </span>
+                )}
+              </div>
+              {details && (
+                <p className="truncate text-sm text-muted-foreground">{details}</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No game details yet. Add players and event information to tag this game.
+            </p>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={openEditor}
+            className="flex shrink-0 items-center gap-2 transition-all duration-200"
+          >
+            <PencilSimple size={16} weight="regular" />
+            Edit Details
+          </Button>
+        </div>
+      </Card>
+
+      <Dialog open={isEditing} onOpenChange={setIsEditing}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Game Details</DialogTitle>
+            <DialogDescription>
+              These values are stored as PGN header tags for this game
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-4 flex-1 overflow-y-auto pr-[2px]">
+            {METADATA_TAGS.map(({ field, label }) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`metadata-${field}`}>{label}</Label>
+                <Input
+                  id={`metadata-${field}`}
+                  value={draft[field] ?? ""}
+                  onChange={(event) =>
+                    setDraft((prev) => ({ ...prev, [field]: event.target.value }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+          <DialogFooter className="pt-4 border-t">
+            <Button variant="outline" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
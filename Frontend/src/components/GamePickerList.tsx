@@ -0,0 +1,106 @@
+import { useMemo, useState } from "react"
+import { MagnifyingGlass } from "@phosphor-icons/react"
+import { Input } from "@/components/ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type { ParsedGame } from "@/types/chess"
+
+interface GamePickerListProps {
+  games: ParsedGame[]
+  selectedIndex: number | null
+  onSelect: (index: number) => void
+  onOpen: (index: number) => void
+}
+
+const SEARCHABLE_TAGS = ["White", "Black", "Result", "Date", "Event", "ECO"]
+
+export function GamePickerList({
+  games,
+  selectedIndex,
+  onSelect,
+  onOpen,
+}: GamePickerListProps) {
+  const [query, setQuery] = useState("")
+
+  const filteredGames = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase()
+    const indexedGames = games.map((game, index) => ({ game, index }))
+
+    if (!normalizedQuery) {
+      return indexedGames
+    }
+
+    return indexedGames.filter(({ game }) =>
+      SEARCHABLE_TAGS.some((tag) =>
+        (game.headers[tag] ?? "").toLowerCase().includes(normalizedQuery)
+      )
+    )
+  }, [games, query])
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <MagnifyingGlass
+          size={16}
+          className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground"
+        />
+        <Input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search by player, event, date, result or ECO"
+          className="pl-9"
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {filteredGames.length} of {games.length} game(s). Double-click a game to open it.
+      </p>
+      <div className="max-h-[320px] overflow-y-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>White</TableHead>
+              <TableHead>Black</TableHead>
+              <TableHead>Result</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>ECO</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredGames.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                  No games match your search
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredGames.map(({ game, index }) => (
+                <TableRow
+                  key={index}
+                  onClick={() => onSelect(index)}
+                  onDoubleClick={() => onOpen(index)}
+                  data-state={selectedIndex === index ? "selected" : undefined}
+                  className={cn("cursor-pointer text-xs", selectedIndex === index && "bg-accent/20")}
+                >
+                  <TableCell>{game.headers.White ?? "?"}</TableCell>
+                  <TableCell>{game.headers.Black ?? "?"}</TableCell>
+                  <TableCell>{game.headers.Result ?? game.result}</TableCell>
+                  <TableCell>{game.headers.Date ?? "-"}</TableCell>
+                  <TableCell className="max-w-[120px] truncate">{game.headers.Event ?? "-"}</TableCell>
+                  <TableCell>{game.headers.ECO ?? "-"}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
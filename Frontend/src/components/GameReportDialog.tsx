@@ -0,0 +1,220 @@
+import { MagnifyingGlass } from "@phosphor-icons/react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Separator } from "@/components/ui/separator"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { GAME_PHASES, type GameReport, type PlayerReport } from "@/lib/gameReport"
+import { cn } from "@/lib/utils"
+import type { GameMetadata, MoveClassification } from "@/types/chess"
+
+interface GameReportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  report: GameReport | null
+  metadata: GameMetadata
+  isReviewing?: boolean
+  reviewProgress?: number
+  onReviewClick?: () => void
+  onTurningPointClick?: (nodeId: string) => void
+}
+
+const CLASSIFICATION_ROWS: Array<{ key: MoveClassification; label: string; className: string }> = [
+  { key: "best", label: "Best", className: "text-emerald-600 dark:text-emerald-400" },
+  { key: "good", label: "Good", className: "text-sky-600 dark:text-sky-400" },
+  { key: "inaccuracy", label: "Inaccuracies", className: "text-yellow-600 dark:text-yellow-400" },
+  { key: "mistake", label: "Mistakes", className: "text-orange-600 dark:text-orange-400" },
+  { key: "blunder", label: "Blunders", className: "text-red-600 dark:text-red-400" },
+  { key: "missedWin", label: "Missed wins", className: "text-purple-600 dark:text-purple-400" },
+]
+
+const TURNING_POINT_LABELS: Partial<Record<MoveClassification, string>> = {
+  mistake: "Mistake",
+  blunder: "Blunder",
+  missedWin: "Missed win",
+}
+
+const PHASE_LABELS = {
+  opening: "Opening",
+  middlegame: "Middlegame",
+  endgame: "Endgame",
+}
+
+function PlayerSummary({ name, elo, player }: { name: string; elo?: string; player: PlayerReport }) {
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div>
+        <p className="font-semibold text-foreground truncate">
+          {name}
+          {elo && <span className="ml-1 text-sm font-normal text-muted-foreground">({elo})</span>}
+        </p>
+        <p className="text-3xl font-bold tabular-nums">
+          {player.moveCount > 0 ? `${player.accuracy.toFixed(1)}%` : "–"}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Accuracy · ACPL {player.moveCount > 0 ? Math.round(player.averageCentipawnLoss) : "–"}
+        </p>
+      </div>
+      <div className="space-y-1 text-sm">
+        {CLASSIFICATION_ROWS.map(({ key, label, className }) => (
+          <div key={key} className="flex justify-between">
+            <span className={className}>{label}</span>
+            <span className="tabular-nums">{player.classifications[key]}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function GameReportDialog({
+  open,
+  onOpenChange,
+  report,
+  metadata,
+  isReviewing = false,
+  reviewProgress = 0,
+  onReviewClick,
+  onTurningPointClick,
+}: GameReportDialogProps) {
+  const whiteName = metadata.white || "White"
+  const blackName = metadata.black || "Black"
+  const details = [metadata.event, metadata.date, metadata.result].filter(Boolean).join(" · ")
+  const hasData = !!report && report.evaluatedMoves > 0
+  const isPartial = !!report && report.evaluatedMoves < report.totalMoves
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Game Report</DialogTitle>
+          <DialogDescription>
+            {whiteName} vs {blackName}
+            {details && ` · ${details}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-5 pr-[2px]">
+          {isReviewing && (
+            <div className="space-y-1">
+              <Progress value={reviewProgress} />
+              <p className="text-xs text-muted-foreground">Reviewing game… {reviewProgress}%</p>
+            </div>
+          )}
+
+          {!hasData ? (
+            <div className="text-center py-8 space-y-3">
+              <p className="text-sm text-muted-foreground">
+                The report is built from the engine review of the game.
+              </p>
+              {!isReviewing && onReviewClick && (
+                <Button size="sm" onClick={onReviewClick} className="gap-2">
+                  <MagnifyingGlass size={16} weight="regular" />
+                  Review Game
+                </Button>
+              )}
+            </div>
+          ) : (
+            <>
+              {isPartial && (
+                <p className="text-xs text-muted-foreground">
+                  Based on {report.evaluatedMoves} of {report.totalMoves} moves.
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <PlayerSummary name={whiteName} elo={metadata.whiteElo} player={report.white} />
+                <PlayerSummary name={blackName} elo={metadata.blackElo} player={report.black} />
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-muted-foreground">
+                  Inaccuracies / mistakes / blunders by phase
+                </h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Phase</TableHead>
+                      <TableHead className="text-right">{whiteName}</TableHead>
+                      <TableHead className="text-right">{blackName}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {GAME_PHASES.map((phase) => (
+                      <TableRow key={phase}>
+                        <TableCell>{PHASE_LABELS[phase]}</TableCell>
+                        {[report.white, report.black].map((player, index) => {
+                          const counts = player.errorsByPhase[phase]
+                          return (
+                            <TableCell key={index} className="text-right tabular-nums">
+                              {counts.inaccuracy} / {counts.mistake} / {counts.blunder}
+                            </TableCell>
+                          )
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-muted-foreground">Turning points</h3>
+                {report.turningPoints.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No big swings in this game.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {report.turningPoints.map((point) => (
+                      <button
+                        key={point.nodeId}
+                        type="button"
+                        onClick={() => onTurningPointClick?.(point.nodeId)}
+                        className="w-full flex items-center justify-between rounded-md px-3 py-2 text-sm text-left hover:bg-muted transition-colors"
+                      >
+                        <span className="font-medium">
+                          {point.label}
+                          <span
+                            className={cn(
+                              "ml-2 text-xs font-normal",
+                              CLASSIFICATION_ROWS.find((row) => row.key === point.classification)?.className
+                            )}
+                          >
+                            {TURNING_POINT_LABELS[point.classification]}
+                          </span>
+                        </span>
+                        <span className="font-mono text-xs text-muted-foreground">
+                          {point.before} → {point.after}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
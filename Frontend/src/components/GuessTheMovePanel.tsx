@@ -0,0 +1,151 @@
+import { useState } from "react"
+import { Play, Stop, Target } from "@phosphor-icons/react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { GUESS_MAX_POINTS, type GuessResult, type GuessSide } from "@/lib/guessTheMove"
+import { cn } from "@/lib/utils"
+
+interface GuessTheMovePanelProps {
+  isTraining: boolean
+  isFinished: boolean
+  isUserTurn: boolean
+  isEvaluating: boolean
+  canStart: boolean
+  results: GuessResult[]
+  score: number
+  maxScore: number
+  onStart: (side: GuessSide, weighted: boolean) => void
+  onStop: () => void
+}
+
+const SIDE_OPTIONS: Array<{ value: GuessSide; label: string }> = [
+  { value: "white", label: "White's moves" },
+  { value: "black", label: "Black's moves" },
+  { value: "both", label: "Both sides" },
+]
+
+function formatMove({ moveNumber, isWhite }: GuessResult, san: string): string {
+  return `${moveNumber}${isWhite ? "." : "..."} ${san}`
+}
+
+function ResultLine({ result }: { result: GuessResult }) {
+  const correct = result.played === result.expected
+  return (
+    <p
+      className={cn(
+        "text-sm",
+        correct
+          ? "text-emerald-600 dark:text-emerald-400"
+          : result.points > 0
+            ? "text-sky-600 dark:text-sky-400"
+            : "text-red-600 dark:text-red-400"
+      )}
+    >
+      {correct
+        ? `Found ${formatMove(result, result.expected)}`
+        : `You played ${result.played}; the game went ${formatMove(result, result.expected)}`}
+      <span className="ml-1 font-semibold">+{result.points}</span>
+    </p>
+  )
+}
+
+export function GuessTheMovePanel({
+  isTraining,
+  isFinished,
+  isUserTurn,
+  isEvaluating,
+  canStart,
+  results,
+  score,
+  maxScore,
+  onStart,
+  onStop,
+}: GuessTheMovePanelProps) {
+  const [side, setSide] = useState<GuessSide>("white")
+  const [weighted, setWeighted] = useState(true)
+
+  const lastResult = results[results.length - 1]
+  const foundCount = results.filter((result) => result.played === result.expected).length
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-foreground">Guess the Move</h2>
+        {isTraining && (
+          <Button size="sm" variant="outline" onClick={onStop}>
+            <Stop size={16} weight="regular" className="mr-2" />
+            {isFinished ? "Close" : "Stop"}
+          </Button>
+        )}
+      </div>
+      <Separator className="mb-4" />
+
+      {isTraining ? (
+        <div className="space-y-3">
+          <div className="flex items-baseline justify-between">
+            <span className="text-2xl font-semibold tabular-nums">
+              {score}
+              <span className="text-sm font-normal text-muted-foreground"> / {maxScore}</span>
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {foundCount} of {results.length} game move(s) found
+            </span>
+          </div>
+          {lastResult && <ResultLine result={lastResult} />}
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Target size={16} weight="regular" />
+            {isFinished
+              ? "End of the game. Close to go back to analysis."
+              : isEvaluating
+                ? "Weighing your move…"
+                : isUserTurn
+                  ? "Your move: find what was played in the game."
+                  : "Playing the reply…"}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Hide the game's next moves and try to find them from the current position. A found move
+            scores {GUESS_MAX_POINTS} points.
+          </p>
+          <div className="space-y-1.5">
+            <Label>Guess</Label>
+            <Select value={side} onValueChange={(value) => setSide(value as GuessSide)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SIDE_OPTIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="guess-weighted" className="leading-snug">
+              Partial credit for good alternatives (engine)
+            </Label>
+            <Switch id="guess-weighted" checked={weighted} onCheckedChange={setWeighted} />
+          </div>
+          <Button className="w-full" disabled={!canStart} onClick={() => onStart(side, weighted)}>
+            <Play size={16} weight="regular" className="mr-2" />
+            Start Training
+          </Button>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,379 @@
+import { useEffect, useMemo, useState } from "react"
+import { CalendarBlank, MagnifyingGlass, X } from "@phosphor-icons/react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { GAME_SOURCE_LABELS } from "@/lib/gameLibrary"
+import {
+  EMPTY_LIBRARY_FILTERS,
+  LIBRARY_PAGE_SIZE,
+  collectTags,
+  filterLibraryGames,
+  hasActiveFilters,
+  type LibraryFilters,
+  type ResultFilter,
+} from "@/lib/librarySearch"
+import { cn } from "@/lib/utils"
+import type { GameSource, LibraryGameSummary } from "@/types/library"
+
+interface LibrarySearchDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  games: LibraryGameSummary[]
+  currentGameId: string | null
+  onOpen: (id: string) => void
+}
+
+const RESULT_OPTIONS: Array<{ value: ResultFilter; label: string }> = [
+  { value: "any", label: "Any result" },
+  { value: "1-0", label: "1-0" },
+  { value: "0-1", label: "0-1" },
+  { value: "1/2-1/2", label: "½-½" },
+  { value: "*", label: "Unfinished" },
+]
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })
+}
+
+/** Page numbers to show, with null marking a gap: 1 … 4 5 6 … 12 */
+function getPageItems(page: number, pageCount: number): Array<number | null> {
+  if (pageCount <= 7) {
+    return Array.from({ length: pageCount }, (_, index) => index + 1)
+  }
+
+  const pages = new Set([1, pageCount, page - 1, page, page + 1])
+  const sorted = [...pages].filter((item) => item >= 1 && item <= pageCount).sort((a, b) => a - b)
+  return sorted.flatMap((item, index) => (index > 0 && item - sorted[index - 1] > 1 ? [null, item] : [item]))
+}
+
+export function LibrarySearchDialog({
+  open,
+  onOpenChange,
+  games,
+  currentGameId,
+  onOpen,
+}: LibrarySearchDialogProps) {
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_LIBRARY_FILTERS)
+  const [page, setPage] = useState(1)
+
+  const allTags = useMemo(() => collectTags(games), [games])
+  const results = useMemo(() => filterLibraryGames(games, filters), [games, filters])
+  const pageCount = Math.max(1, Math.ceil(results.length / LIBRARY_PAGE_SIZE))
+  const pageResults = results.slice((page - 1) * LIBRARY_PAGE_SIZE, page * LIBRARY_PAGE_SIZE)
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(1)
+  }, [filters])
+
+  useEffect(() => {
+    if (page > pageCount) setPage(pageCount)
+  }, [page, pageCount])
+
+  const updateFilters = (changes: Partial<LibraryFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }))
+  }
+
+  const toggleTag = (tag: string) => {
+    updateFilters({
+      tags: filters.tags.includes(tag)
+        ? filters.tags.filter((item) => item !== tag)
+        : [...filters.tags, tag],
+    })
+  }
+
+  const handleOpen = (id: string) => {
+    onOpen(id)
+    onOpenChange(false)
+  }
+
+  const { dateRange } = filters
+  const dateLabel = dateRange?.from
+    ? dateRange.to
+      ? `${formatDay(dateRange.from)} – ${formatDay(dateRange.to)}`
+      : formatDay(dateRange.from)
+    : "Any date"
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Search Library</DialogTitle>
+          <DialogDescription>
+            Filter your saved games by player, result, date, event, opening, source and tags
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-[2px]">
+          <div className="relative">
+            <MagnifyingGlass
+              size={16}
+              className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground"
+            />
+            <Input
+              value={filters.text}
+              onChange={(event) => updateFilters({ text: event.target.value })}
+              placeholder="Search names, players, events, tags…"
+              className="pl-9"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="library-filter-player">Player</Label>
+              <Input
+                id="library-filter-player"
+                value={filters.player}
+                onChange={(event) => updateFilters({ player: event.target.value })}
+                placeholder="White or Black"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="library-filter-event">Event</Label>
+              <Input
+                id="library-filter-event"
+                value={filters.event}
+                onChange={(event) => updateFilters({ event: event.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="library-filter-opening">ECO / Opening</Label>
+              <Input
+                id="library-filter-opening"
+                value={filters.opening}
+                onChange={(event) => updateFilters({ opening: event.target.value })}
+                placeholder="e.g. B90 or Sicilian"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Result</Label>
+              <Select
+                value={filters.result}
+                onValueChange={(value) => updateFilters({ result: value as ResultFilter })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RESULT_OPTIONS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Source</Label>
+              <Select
+                value={filters.source}
+                onValueChange={(value) => updateFilters({ source: value as GameSource | "any" })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any source</SelectItem>
+                  {Object.entries(GAME_SOURCE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Date played</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn("w-full justify-start gap-2 font-normal", !dateRange?.from && "text-muted-foreground")}
+                  >
+                    <CalendarBlank size={16} weight="regular" />
+                    <span className="truncate">{dateLabel}</span>
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={dateRange}
+                    onSelect={(range) => updateFilters({ dateRange: range })}
+                    defaultMonth={dateRange?.from}
+                    captionLayout="dropdown"
+                    startMonth={new Date(1850, 0)}
+                    endMonth={new Date()}
+                  />
+                  {dateRange?.from && (
+                    <div className="border-t p-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="w-full"
+                        onClick={() => updateFilters({ dateRange: undefined })}
+                      >
+                        Clear dates
+                      </Button>
+                    </div>
+                  )}
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+
+          {allTags.length > 0 && (
+            <div className="space-y-1.5">
+              <Label>Tags</Label>
+              <div className="flex flex-wrap gap-2">
+                {allTags.map((tag) => (
+                  <Button
+                    key={tag}
+                    size="sm"
+                    variant={filters.tags.includes(tag) ? "default" : "outline"}
+                    onClick={() => toggleTag(tag)}
+                    className="h-7 rounded-full px-3 text-xs"
+                  >
+                    {tag}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              {results.length} of {games.length} game(s). Click a game to open it.
+            </p>
+            {hasActiveFilters(filters) && (
+              <Button size="sm" variant="ghost" onClick={() => setFilters(EMPTY_LIBRARY_FILTERS)} className="gap-1">
+                <X size={14} weight="regular" />
+                Clear filters
+              </Button>
+            )}
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>White</TableHead>
+                  <TableHead>Black</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>ECO</TableHead>
+                  <TableHead>Source</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pageResults.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                      No games match your filters
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  pageResults.map((game) => (
+                    <TableRow
+                      key={game.id}
+                      onClick={() => handleOpen(game.id)}
+                      data-state={game.id === currentGameId ? "selected" : undefined}
+                      className="cursor-pointer text-xs"
+                    >
+                      <TableCell className="max-w-[180px] truncate font-medium">{game.name}</TableCell>
+                      <TableCell>{game.metadata.white ?? "?"}</TableCell>
+                      <TableCell>{game.metadata.black ?? "?"}</TableCell>
+                      <TableCell>{game.metadata.result ?? "*"}</TableCell>
+                      <TableCell>{game.metadata.date ?? "-"}</TableCell>
+                      <TableCell>{game.metadata.eco || game.identifiedOpening?.eco || "-"}</TableCell>
+                      <TableCell>{GAME_SOURCE_LABELS[game.source]}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {pageCount > 1 && (
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    onClick={(event) => {
+                      event.preventDefault()
+                      setPage((prev) => Math.max(1, prev - 1))
+                    }}
+                    className={cn(page === 1 && "pointer-events-none opacity-50")}
+                  />
+                </PaginationItem>
+                {getPageItems(page, pageCount).map((item, index) => (
+                  <PaginationItem key={item ?? `gap-${index}`}>
+                    {item === null ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink
+                        href="#"
+                        isActive={item === page}
+                        onClick={(event) => {
+                          event.preventDefault()
+                          setPage(item)
+                        }}
+                      >
+                        {item}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    onClick={(event) => {
+                      event.preventDefault()
+                      setPage((prev) => Math.min(pageCount, prev + 1))
+                    }}
+                    className={cn(page === pageCount && "pointer-events-none opacity-50")}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
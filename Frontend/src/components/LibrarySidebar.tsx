@@ -0,0 +1,248 @@
+import { useState } from "react"
+import {
+  Books,
+  Camera,
+  Copy,
+  DotsThree,
+  FileCsv,
+  FileText,
+  FunnelSimple,
+  GridFour,
+  PencilSimple,
+  Trash,
+} from "@phosphor-icons/react"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { GAME_SOURCE_LABELS } from "@/lib/gameLibrary"
+import type { GameSource, LibraryGameSummary } from "@/types/library"
+
+interface LibrarySidebarProps {
+  games: LibraryGameSummary[]
+  currentGameId: string | null
+  isLoading?: boolean
+  onOpen: (id: string) => void
+  onEditDetails: (id: string, details: { name: string; tags: string[] }) => void
+  onSearchClick?: () => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+const SOURCE_ICONS: Record<GameSource, typeof FileText> = {
+  pgn: FileText,
+  csv: FileCsv,
+  image: Camera,
+  fen: GridFour,
+}
+
+function formatSavedDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })
+}
+
+export function LibrarySidebar({
+  games,
+  currentGameId,
+  isLoading = false,
+  onOpen,
+  onEditDetails,
+  onSearchClick,
+  onDuplicate,
+  onDelete,
+}: LibrarySidebarProps) {
+  const [editing, setEditing] = useState<LibraryGameSummary | null>(null)
+  const [draftName, setDraftName] = useState("")
+  const [draftTags, setDraftTags] = useState("")
+  const [deleting, setDeleting] = useState<LibraryGameSummary | null>(null)
+
+  const startEditing = (game: LibraryGameSummary) => {
+    setDraftName(game.name)
+    setDraftTags((game.tags ?? []).join(", "))
+    setEditing(game)
+  }
+
+  const handleSaveDetails = () => {
+    if (!editing || !draftName.trim()) return
+    const tags = [...new Set(draftTags.split(",").map((tag) => tag.trim()).filter(Boolean))]
+    onEditDetails(editing.id, { name: draftName.trim(), tags })
+    setEditing(null)
+  }
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader className="h-16 flex-row items-center gap-2 border-b px-4">
+          <Books size={20} weight="regular" />
+          <span className="font-semibold">Game Library</span>
+          {onSearchClick && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="ml-auto size-7"
+              title="Search and filter"
+              aria-label="Search and filter"
+              onClick={onSearchClick}
+            >
+              <FunnelSimple size={16} weight="regular" />
+            </Button>
+          )}
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Saved games ({games.length})</SidebarGroupLabel>
+            <SidebarGroupContent>
+              {!isLoading && games.length === 0 && (
+                <p className="px-2 py-4 text-sm text-muted-foreground">
+                  Games you upload are saved here automatically.
+                </p>
+              )}
+              <SidebarMenu>
+                {games.map((game) => {
+                  const SourceIcon = SOURCE_ICONS[game.source]
+                  return (
+                    <SidebarMenuItem key={game.id}>
+                      <SidebarMenuButton
+                        size="lg"
+                        isActive={game.id === currentGameId}
+                        onClick={() => onOpen(game.id)}
+                        title={game.name}
+                      >
+                        <SourceIcon size={18} weight="regular" className="shrink-0" />
+                        <div className="flex min-w-0 flex-col">
+                          <span className="truncate">{game.name}</span>
+                          <span className="truncate text-xs text-muted-foreground">
+                            {GAME_SOURCE_LABELS[game.source]} · {game.moveCount} plies · {formatSavedDate(game.updatedAt)}
+                          </span>
+                        </div>
+                      </SidebarMenuButton>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover aria-label={`Actions for ${game.name}`}>
+                            <DotsThree size={16} weight="bold" />
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent side="right" align="start">
+                          <DropdownMenuItem onSelect={() => startEditing(game)}>
+                            <PencilSimple size={16} weight="regular" />
+                            Rename & tag
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => onDuplicate(game.id)}>
+                            <Copy size={16} weight="regular" />
+                            Duplicate
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem variant="destructive" onSelect={() => setDeleting(game)}>
+                            <Trash size={16} weight="regular" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </SidebarMenuItem>
+                  )
+                })}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Rename & Tag Game</DialogTitle>
+            <DialogDescription>Choose how this game appears in your library</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="library-game-name">Name</Label>
+              <Input
+                id="library-game-name"
+                value={draftName}
+                onChange={(event) => setDraftName(event.target.value)}
+                onKeyDown={(event) => event.key === "Enter" && handleSaveDetails()}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="library-game-tags">Tags</Label>
+              <Input
+                id="library-game-tags"
+                value={draftTags}
+                placeholder="e.g. club championship, to review"
+                onChange={(event) => setDraftTags(event.target.value)}
+                onKeyDown={(event) => event.key === "Enter" && handleSaveDetails()}
+              />
+              <p className="text-xs text-muted-foreground">Separate tags with commas</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveDetails} disabled={!draftName.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The game and all of its analysis will be removed from this browser.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleting) onDelete(deleting.id)
+                setDeleting(null)
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -1,5 +1,8 @@
 import { Card } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { MagnifyingGlass, X } from "@phosphor-icons/react"
 import {
   Table,
   TableBody,
@@ -8,13 +11,32 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
-import type { MoveHistoryItem } from "@/types/chess"
+import type { MoveClassification, MoveHistoryItem, Opening, VariationOption } from "@/types/chess"
 import { cn } from "@/lib/utils"
+import { nagToGlyph } from "@/lib/pgnParser"
 
 interface MoveListPanelProps {
   moves: MoveHistoryItem[]
   currentMoveIndex: number
   onMoveClick: (moveIndex: number) => void
+  variations?: VariationOption[]
+  onVariationClick?: (nodeId: string) => void
+  comment?: string | null
+  opening?: Opening | null
+  canReview?: boolean
+  isReviewing?: boolean
+  reviewProgress?: number
+  onReviewClick?: () => void
+  onCancelReview?: () => void
+}
+
+const CLASSIFICATION_GLYPHS: Record<MoveClassification, { glyph: string; label: string; className: string }> = {
+  best: { glyph: "★", label: "Best move", className: "text-emerald-600 dark:text-emerald-400" },
+  good: { glyph: "✓", label: "Good move", className: "text-sky-600 dark:text-sky-400" },
+  inaccuracy: { glyph: "?!", label: "Inaccuracy", className: "text-yellow-600 dark:text-yellow-400" },
+  mistake: { glyph: "?", label: "Mistake", className: "text-orange-600 dark:text-orange-400" },
+  blunder: { glyph: "??", label: "Blunder", className: "text-red-600 dark:text-red-400" },
+  missedWin: { glyph: "✗", label: "Missed win", className: "text-purple-600 dark:text-purple-400" },
 }
 
 const MovePill = ({
@@ -37,6 +59,15 @@ const MovePill = ({
     )}
   >
     {move?.san ?? "-"}
+    {move?.nags?.map((nag) => nagToGlyph(nag)).join("")}
+    {move?.classification && (
+      <span
+        title={CLASSIFICATION_GLYPHS[move.classification].label}
+        className={cn("ml-1 text-xs font-bold", CLASSIFICATION_GLYPHS[move.classification].className)}
+      >
+        {CLASSIFICATION_GLYPHS[move.classification].glyph}
+      </span>
+    )}
   </div>
 )
 
@@ -44,12 +75,56 @@ export function MoveListPanel({
   moves,
   currentMoveIndex,
   onMoveClick,
+  variations = [],
+  onVariationClick,
+  comment = null,
+  opening = null,
+  canReview = false,
+  isReviewing = false,
+  reviewProgress = 0,
+  onReviewClick,
+  onCancelReview,
 }: MoveListPanelProps) {
   return (
     <Card className="p-6">
-      <h2 className="text-lg font-semibold text-foreground mb-4">
-        Move History
-      </h2>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="min-w-0">
+          <h2 className="text-lg font-semibold text-foreground">
+            Move History
+          </h2>
+          {opening && (
+            <p className="truncate text-sm text-muted-foreground" title={opening.name}>
+              <span className="font-medium text-foreground">{opening.eco}</span> · {opening.name}
+            </p>
+          )}
+        </div>
+        {canReview && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={isReviewing ? onCancelReview : onReviewClick}
+            className="transition-all duration-200"
+          >
+            {isReviewing ? (
+              <>
+                <X size={16} weight="regular" className="mr-2" />
+                Cancel Review
+              </>
+            ) : (
+              <>
+                <MagnifyingGlass size={16} weight="regular" className="mr-2" />
+                Review Game
+              </>
+            )}
+          </Button>
+        )}
+      </div>
+      {isReviewing && (
+        <div className="mb-4 space-y-1">
+          <Progress value={reviewProgress} />
+          <p className="text-xs text-muted-foreground">Reviewing moves… {reviewProgress}%</p>
+        </div>
+      )}
       <Separator className="mb-4" />
       <div className="max-h-[600px] overflow-y-auto">
         <Table>
@@ -71,13 +146,14 @@ export function MoveListPanel({
                 </TableCell>
               </TableRow>
             ) : (
-              moves.map((move) => {
-                const whiteIndex = (move.moveNumber - 1) * 2
+              moves.map((move, rowIndex) => {
+                // A position set up with Black to move starts the list on Black's slot
+                const whiteIndex = rowIndex * 2 - (moves[0].white ? 0 : 1)
                 const blackIndex = whiteIndex + 1
                 const isWhiteActive = currentMoveIndex === whiteIndex
                 const isBlackActive = currentMoveIndex === blackIndex
                 const isWhitePlayed = currentMoveIndex >= whiteIndex
-                const isBlackPlayed = move.black && currentMoveIndex >= blackIndex
+                const isBlackPlayed = Boolean(move.black) && currentMoveIndex >= blackIndex
 
                 return (
                   <TableRow key={move.moveNumber}>
@@ -115,6 +191,35 @@ export function MoveListPanel({
           </TableBody>
         </Table>
       </div>
+      {comment && (
+        <>
+          <Separator className="my-4" />
+          <p className="text-sm text-muted-foreground italic">{comment}</p>
+        </>
+      )}
+      {variations.length > 0 && (
+        <>
+          <Separator className="my-4" />
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-muted-foreground">
+              Variations from here
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {variations.map((variation) => (
+                <button
+                  key={variation.nodeId}
+                  type="button"
+                  onClick={() => onVariationClick?.(variation.nodeId)}
+                  className="rounded-full px-3 py-1 text-sm font-medium bg-amber-50 dark:bg-amber-950/40 text-amber-900 dark:text-amber-100 border border-amber-200/80 dark:border-amber-500/40 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors duration-200"
+                >
+                  {variation.moveNumber}
+                  {variation.isWhite ? "." : "..."} {variation.san}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
     </Card>
   )
 }
@@ -0,0 +1,211 @@
+import { useMemo, useState } from "react"
+import { Chess } from "chess.js"
+import { Warning, Wrench } from "@phosphor-icons/react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { getMoveSuggestions, type ReviewedMove } from "@/lib/ocrReview"
+import type { OcrConfidence } from "@/lib/parseChessNotation"
+import { cn } from "@/lib/utils"
+
+interface MoveReviewListProps {
+  moves: ReviewedMove[]
+  onEditMove: (ply: number, san: string) => void
+}
+
+const CONFIDENCE_STYLES: Record<OcrConfidence, string> = {
+  high: "",
+  medium: "bg-amber-100 text-amber-900 dark:bg-amber-900/30 dark:text-amber-200",
+  low: "bg-red-100 text-red-900 dark:bg-red-900/30 dark:text-red-200",
+}
+
+const CONFIDENCE_LABELS: Record<OcrConfidence, string> = {
+  high: "Clear",
+  medium: "Unsure",
+  low: "Hard to read",
+}
+
+function formatPly(ply: number): string {
+  const moveNumber = Math.floor(ply / 2) + 1
+  return ply % 2 === 0 ? `${moveNumber}.` : `${moveNumber}...`
+}
+
+function describeMove(move: ReviewedMove): string {
+  const details = [CONFIDENCE_LABELS[move.confidence]]
+  if (move.corrected) details.push(`read as "${move.read}"`)
+  if (!move.isLegal) details.push("illegal here")
+  return details.join(" · ")
+}
+
+function isLegalMove(fen: string, san: string): boolean {
+  try {
+    new Chess(fen).move(san)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function MoveCell({
+  move,
+  ply,
+  isSelected,
+  onSelect,
+}: {
+  move: ReviewedMove | undefined
+  ply: number
+  isSelected: boolean
+  onSelect: (ply: number) => void
+}) {
+  if (!move) return <TableCell />
+
+  return (
+    <TableCell className="p-1">
+      <button
+        type="button"
+        onClick={() => onSelect(ply)}
+        title={describeMove(move)}
+        className={cn(
+          "flex w-full items-center gap-1.5 rounded-md px-2 py-1 text-left font-mono text-sm transition-colors hover:bg-accent hover:text-accent-foreground",
+          CONFIDENCE_STYLES[move.confidence],
+          !move.isLegal && "text-destructive line-through",
+          isSelected && "ring-2 ring-primary"
+        )}
+      >
+        {move.san}
+        {move.corrected && <Wrench size={14} weight="bold" className="shrink-0" />}
+        {!move.isLegal && move.fen && <Warning size={14} weight="fill" className="shrink-0" />}
+      </button>
+    </TableCell>
+  )
+}
+
+export function MoveReviewList({ moves, onEditMove }: MoveReviewListProps) {
+  const [selectedPly, setSelectedPly] = useState<number | null>(null)
+  const [editValue, setEditValue] = useState("")
+
+  const selectedMove = selectedPly !== null ? moves[selectedPly] : undefined
+  const unsureCount = moves.filter((move) => move.confidence !== "high").length
+  const correctedCount = moves.filter((move) => move.corrected).length
+
+  const suggestions = useMemo(
+    () => (selectedMove?.fen ? getMoveSuggestions(selectedMove.fen, editValue || selectedMove.read) : []),
+    [selectedMove, editValue]
+  )
+
+  const rows = useMemo(
+    () => Array.from({ length: Math.ceil(moves.length / 2) }, (_, index) => index * 2),
+    [moves.length]
+  )
+
+  const handleSelect = (ply: number) => {
+    setSelectedPly(ply)
+    setEditValue(moves[ply]?.san ?? "")
+  }
+
+  const applyEdit = (san: string) => {
+    if (selectedPly === null) return
+    onEditMove(selectedPly, san)
+    // Step on so a run of doubtful moves can be checked one after another
+    if (selectedPly + 1 < moves.length) {
+      setSelectedPly(selectedPly + 1)
+      setEditValue(moves[selectedPly + 1].san)
+    } else {
+      setSelectedPly(null)
+    }
+  }
+
+  const canApply = Boolean(selectedMove?.fen && editValue.trim() && isLegalMove(selectedMove.fen, editValue.trim()))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span>
+          {moves.length} move(s) read · {unsureCount} unsure · {correctedCount} auto-corrected
+        </span>
+        <span className="flex items-center gap-1">
+          <span className={cn("h-3 w-3 rounded-sm", CONFIDENCE_STYLES.medium)} />
+          {CONFIDENCE_LABELS.medium}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className={cn("h-3 w-3 rounded-sm", CONFIDENCE_STYLES.low)} />
+          {CONFIDENCE_LABELS.low}
+        </span>
+        <span className="flex items-center gap-1">
+          <Wrench size={12} weight="bold" />
+          Corrected
+        </span>
+      </div>
+
+      <div className="max-h-[280px] overflow-y-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">#</TableHead>
+              <TableHead>White</TableHead>
+              <TableHead>Black</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((ply) => (
+              <TableRow key={ply}>
+                <TableCell className="text-xs text-muted-foreground">{ply / 2 + 1}</TableCell>
+                <MoveCell move={moves[ply]} ply={ply} isSelected={selectedPly === ply} onSelect={handleSelect} />
+                <MoveCell move={moves[ply + 1]} ply={ply + 1} isSelected={selectedPly === ply + 1} onSelect={handleSelect} />
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {selectedMove && selectedPly !== null && (
+        <div className="space-y-2 rounded-md border p-3">
+          <p className="text-sm">
+            <span className="font-medium">{formatPly(selectedPly)} {selectedMove.san}</span>
+            <span className="ml-2 text-xs text-muted-foreground">{describeMove(selectedMove)}</span>
+          </p>
+          {selectedMove.fen ? (
+            <>
+              <div className="flex gap-2">
+                <Input
+                  value={editValue}
+                  onChange={(event) => setEditValue(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter" && canApply) applyEdit(editValue.trim())
+                  }}
+                  placeholder="Type the move, e.g. Nf3"
+                  className="font-mono"
+                />
+                <Button size="sm" disabled={!canApply} onClick={() => applyEdit(editValue.trim())}>
+                  Apply
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map((san) => (
+                  <Button
+                    key={san}
+                    size="sm"
+                    variant="outline"
+                    className="h-7 px-2 font-mono text-xs"
+                    onClick={() => applyEdit(san)}
+                  >
+                    {san}
+                  </Button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">Fix the first illegal move before editing this one.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
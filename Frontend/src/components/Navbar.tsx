@@ -1,26 +1,86 @@
-import { UploadSimple } from "@phosphor-icons/react"
+import { ChartBar, UploadSimple, UserCircle } from "@phosphor-icons/react"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { SidebarTrigger } from "@/components/ui/sidebar"
+import { PgnExportMenu } from "@/components/PgnExportMenu"
+import type { PgnExportOptions } from "@/lib/pgnExport"
 
 interface NavbarProps {
   onUploadClick: () => void
+  onReportClick?: () => void
+  canShowReport?: boolean
+  playerName?: string
+  onPlayerNameChange?: (name: string) => void
+  onDownloadPgn?: (options: PgnExportOptions) => void
+  onCopyPgn?: (options: PgnExportOptions) => void
+  canExport?: boolean
 }
 
-export function Navbar({ onUploadClick }: NavbarProps) {
+export function Navbar({
+  onUploadClick,
+  onReportClick,
+  canShowReport = false,
+  playerName = "",
+  onPlayerNameChange,
+  onDownloadPgn,
+  onCopyPgn,
+  canExport = false,
+}: NavbarProps) {
   return (
     <nav className="border-b border-border bg-background">
       <div className="flex h-16 items-center justify-between px-6">
         <div className="flex items-center gap-3">
+          <SidebarTrigger title="Game library" />
           <h1 className="text-2xl font-bold tracking-tight text-foreground">
             NF3 Pro
           </h1>
         </div>
-        <Button
-          onClick={onUploadClick}
-          className="flex items-center gap-2 transition-all duration-200"
-        >
-          <UploadSimple size={18} weight="regular" />
-          Upload
-        </Button>
+        <div className="flex items-center gap-2">
+          {onPlayerNameChange && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="icon" title="Your player name" aria-label="Your player name">
+                  <UserCircle size={22} weight="regular" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-72 space-y-2">
+                <Label htmlFor="player-name">Your name</Label>
+                <Input
+                  id="player-name"
+                  value={playerName}
+                  placeholder="e.g. Magnus Carlsen"
+                  onChange={(event) => onPlayerNameChange(event.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Games where you played Black open with the board flipped to your side.
+                </p>
+              </PopoverContent>
+            </Popover>
+          )}
+          {onDownloadPgn && onCopyPgn && (
+            <PgnExportMenu onDownload={onDownloadPgn} onCopy={onCopyPgn} disabled={!canExport} />
+          )}
+          {onReportClick && (
+            <Button
+              variant="outline"
+              onClick={onReportClick}
+              disabled={!canShowReport}
+              className="flex items-center gap-2 transition-all duration-200"
+            >
+              <ChartBar size={18} weight="regular" />
+              Report
+            </Button>
+          )}
+          <Button
+            onClick={onUploadClick}
+            className="flex items-center gap-2 transition-all duration-200"
+          >
+            <UploadSimple size={18} weight="regular" />
+            Upload
+          </Button>
+        </div>
       </div>
     </nav>
   )
@@ -6,6 +6,7 @@ import {
   Play,
   Pause,
   ArrowCounterClockwise,
+  ArrowsDownUp,
 } from "@phosphor-icons/react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
@@ -17,6 +18,7 @@ interface NavigationControlsProps {
   onLast?: () => void
   onToggleAutoPlay?: () => void
   onReturnToMainGame?: () => void
+  onFlipBoard?: () => void
   isAutoPlaying?: boolean
   isAnalysisMode?: boolean
   disabled?: boolean
@@ -29,6 +31,7 @@ export function NavigationControls({
   onLast,
   onToggleAutoPlay,
   onReturnToMainGame,
+  onFlipBoard,
   isAutoPlaying = false,
   isAnalysisMode = false,
   disabled = false,
@@ -92,6 +95,18 @@ export function NavigationControls({
           >
             <SkipForward size={18} weight="regular" />
           </Button>
+          {onFlipBoard && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onFlipBoard}
+              title="Flip board (F)"
+              aria-label="Flip board"
+              className="transition-all duration-200 ml-2"
+            >
+              <ArrowsDownUp size={18} weight="regular" />
+            </Button>
+          )}
         </div>
 
         {isAnalysisMode && (
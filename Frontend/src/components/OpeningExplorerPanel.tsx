@@ -0,0 +1,111 @@
+import { useMemo } from "react"
+import { Card } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { usePositionEntries } from "@/hooks/usePositionEntries"
+import { buildExplorerMoves, type ExplorerMove } from "@/lib/openingExplorer"
+import { cn } from "@/lib/utils"
+import type { LibraryGameSummary } from "@/types/library"
+
+interface OpeningExplorerPanelProps {
+  fen: string
+  games: LibraryGameSummary[]
+  currentGameId: string | null
+  onMoveClick: (san: string) => void
+}
+
+function percent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0
+}
+
+// White wins, draws and Black wins as one stacked bar; unfinished games leave a gap at the end
+function ResultBar({ move }: { move: ExplorerMove }) {
+  const segments = [
+    { value: percent(move.whiteWins, move.games), label: "White wins", className: "bg-white text-black border border-border" },
+    { value: percent(move.draws, move.games), label: "Draws", className: "bg-muted-foreground/60 text-white" },
+    { value: percent(move.blackWins, move.games), label: "Black wins", className: "bg-zinc-900 text-white" },
+  ]
+
+  return (
+    <div className="flex h-5 w-full overflow-hidden rounded-sm bg-muted text-[10px] font-medium leading-5">
+      {segments.map(({ value, label, className }) =>
+        value > 0 ? (
+          <div
+            key={label}
+            title={`${label}: ${value}%`}
+            className={cn("text-center overflow-hidden", className)}
+            style={{ width: `${value}%` }}
+          >
+            {value >= 15 ? `${value}%` : ""}
+          </div>
+        ) : null
+      )}
+    </div>
+  )
+}
+
+export function OpeningExplorerPanel({ fen, games, currentGameId, onMoveClick }: OpeningExplorerPanelProps) {
+  const entries = usePositionEntries(fen, games)
+  const moves = useMemo(
+    () => buildExplorerMoves(entries, games, currentGameId),
+    [entries, games, currentGameId]
+  )
+  const totalGames = moves.reduce((sum, move) => sum + move.games, 0)
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-foreground">Opening Explorer</h2>
+        <span className="text-xs text-muted-foreground">Your library</span>
+      </div>
+      <Separator className="mb-4" />
+      {moves.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          None of your other saved games continued from this position.
+        </p>
+      ) : (
+        <div className="max-h-[320px] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Move</TableHead>
+                <TableHead className="w-20">Games</TableHead>
+                <TableHead>White / Draw / Black</TableHead>
+                <TableHead className="w-16 text-right" title="Average rating of the player answering the move">
+                  Opp.
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {moves.map((move) => (
+                <TableRow
+                  key={move.san}
+                  onClick={() => onMoveClick(move.san)}
+                  className="cursor-pointer text-xs"
+                  title={`Play ${move.san}`}
+                >
+                  <TableCell className="font-semibold">{move.san}</TableCell>
+                  <TableCell>
+                    {move.games}
+                    <span className="ml-1 text-muted-foreground">({percent(move.games, totalGames)}%)</span>
+                  </TableCell>
+                  <TableCell>
+                    <ResultBar move={move} />
+                  </TableCell>
+                  <TableCell className="text-right">{move.averageOpponentRating ?? "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState } from "react"
+import { Copy, DownloadSimple, Export } from "@phosphor-icons/react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { DEFAULT_PGN_EXPORT_OPTIONS, type PgnExportOptions } from "@/lib/pgnExport"
+
+interface PgnExportMenuProps {
+  onDownload: (options: PgnExportOptions) => void
+  onCopy: (options: PgnExportOptions) => void
+  disabled?: boolean
+}
+
+const OPTION_ITEMS: Array<{ key: keyof PgnExportOptions; label: string }> = [
+  { key: "includeVariations", label: "Variations" },
+  { key: "includeComments", label: "Comments, NAGs & drawings" },
+  { key: "includeEvaluations", label: "Engine evaluations" },
+]
+
+export function PgnExportMenu({ onDownload, onCopy, disabled = false }: PgnExportMenuProps) {
+  const [options, setOptions] = useState<PgnExportOptions>(DEFAULT_PGN_EXPORT_OPTIONS)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          className="flex items-center gap-2 transition-all duration-200"
+        >
+          <Export size={18} weight="regular" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Include in PGN</DropdownMenuLabel>
+        {OPTION_ITEMS.map(({ key, label }) => (
+          <DropdownMenuCheckboxItem
+            key={key}
+            checked={options[key]}
+            // Keep the menu open while options are toggled
+            onSelect={(event) => event.preventDefault()}
+            onCheckedChange={(checked) =>
+              setOptions((prev) => ({ ...prev, [key]: checked === true }))
+            }
+          >
+            {label}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => onDownload(options)}>
+          <DownloadSimple size={16} weight="regular" />
+          Download .pgn
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onCopy(options)}>
+          <Copy size={16} weight="regular" />
+          Copy to clipboard
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
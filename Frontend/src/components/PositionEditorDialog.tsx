@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from "react"
+import { ChessboardProvider, Chessboard, SparePiece } from "react-chessboard"
+import type { PieceDropHandlerArgs, SquareHandlerArgs } from "react-chessboard"
+import { DEFAULT_POSITION } from "chess.js"
+import { Warning } from "@phosphor-icons/react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  EMPTY_SETUP,
+  getEnPassantCandidates,
+  setupFromFen,
+  setupToFen,
+  validateSetup,
+  type CastlingRights,
+  type PositionSetup,
+} from "@/lib/positionSetup"
+
+interface PositionEditorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialFen?: string
+  onApply: (fen: string) => void
+}
+
+const WHITE_SPARE_PIECES = ["wK", "wQ", "wR", "wB", "wN", "wP"]
+const BLACK_SPARE_PIECES = ["bK", "bQ", "bR", "bB", "bN", "bP"]
+
+const CASTLING_OPTIONS: Array<{ key: keyof CastlingRights; label: string }> = [
+  { key: "whiteKingside", label: "White O-O" },
+  { key: "whiteQueenside", label: "White O-O-O" },
+  { key: "blackKingside", label: "Black O-O" },
+  { key: "blackQueenside", label: "Black O-O-O" },
+]
+
+export function PositionEditorDialog({
+  open,
+  onOpenChange,
+  initialFen,
+  onApply,
+}: PositionEditorDialogProps) {
+  const [setup, setSetup] = useState<PositionSetup>(() => setupFromFen(initialFen || DEFAULT_POSITION))
+
+  useEffect(() => {
+    if (open) {
+      setSetup(setupFromFen(initialFen || DEFAULT_POSITION))
+    }
+  }, [open, initialFen])
+
+  const validation = useMemo(() => validateSetup(setup), [setup])
+  const enPassantCandidates = useMemo(() => getEnPassantCandidates(setup), [setup])
+  const fen = useMemo(() => setupToFen(setup), [setup])
+
+  const updatePieces = (update: (pieces: PositionSetup["pieces"]) => void) => {
+    setSetup((prev) => {
+      const pieces = { ...prev.pieces }
+      update(pieces)
+      return { ...prev, pieces, enPassant: null }
+    })
+  }
+
+  const handleDrop = ({ piece, sourceSquare, targetSquare }: PieceDropHandlerArgs) => {
+    updatePieces((pieces) => {
+      if (!piece.isSparePiece) {
+        delete pieces[sourceSquare]
+      }
+      // Dragging a piece off the board removes it
+      if (targetSquare) {
+        pieces[targetSquare] = piece.pieceType
+      }
+    })
+    return true
+  }
+
+  const handleSquareRightClick = ({ square }: SquareHandlerArgs) => {
+    updatePieces((pieces) => {
+      delete pieces[square]
+    })
+  }
+
+  const boardOptions = {
+    id: "position-editor",
+    position: Object.fromEntries(
+      Object.entries(setup.pieces).map(([square, pieceType]) => [square, { pieceType }])
+    ),
+    allowDragOffBoard: true,
+    showAnimations: false,
+    boardStyle: {
+      borderRadius: "0.375rem",
+    },
+    onPieceDrop: handleDrop,
+    onSquareRightClick: handleSquareRightClick,
+  }
+
+  const handleApply = () => {
+    if (!validation.valid) return
+    onApply(fen)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Set Up Position</DialogTitle>
+          <DialogDescription>
+            Drag pieces onto the board, drag them off (or right-click) to remove them
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_220px] gap-6 py-4 flex-1 overflow-y-auto pr-[2px]">
+          <ChessboardProvider options={boardOptions}>
+            <div className="space-y-2">
+              <div className="grid grid-cols-6 gap-1">
+                {BLACK_SPARE_PIECES.map((pieceType) => (
+                  <div key={pieceType} className="aspect-square">
+                    <SparePiece pieceType={pieceType} />
+                  </div>
+                ))}
+              </div>
+              <Chessboard />
+              <div className="grid grid-cols-6 gap-1">
+                {WHITE_SPARE_PIECES.map((pieceType) => (
+                  <div key={pieceType} className="aspect-square">
+                    <SparePiece pieceType={pieceType} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </ChessboardProvider>
+
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label>Side to move</Label>
+              <Select
+                value={setup.turn}
+                onValueChange={(value) =>
+                  setSetup((prev) => ({ ...prev, turn: value === "b" ? "b" : "w", enPassant: null }))
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="w">White</SelectItem>
+                  <SelectItem value="b">Black</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Castling rights</Label>
+              {CASTLING_OPTIONS.map(({ key, label }) => (
+                <div key={key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`castling-${key}`}
+                    checked={setup.castling[key]}
+                    onCheckedChange={(checked) =>
+                      setSetup((prev) => ({
+                        ...prev,
+                        castling: { ...prev.castling, [key]: checked === true },
+                      }))
+                    }
+                  />
+                  <Label htmlFor={`castling-${key}`} className="font-normal">
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>En passant square</Label>
+              <Select
+                value={setup.enPassant ?? "none"}
+                onValueChange={(value) =>
+                  setSetup((prev) => ({ ...prev, enPassant: value === "none" ? null : value }))
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {enPassantCandidates.map((square) => (
+                    <SelectItem key={square} value={square}>
+                      {square}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={() => setSetup(setupFromFen(DEFAULT_POSITION))}>
+                Start Position
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setSetup(EMPTY_SETUP)}>
+                Clear Board
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground break-all font-mono">{fen}</p>
+
+        {!validation.valid && (
+          <Alert variant="destructive">
+            <Warning size={18} weight="regular" />
+            <AlertDescription>{validation.error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter className="pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!validation.valid}>
+            Use Position
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
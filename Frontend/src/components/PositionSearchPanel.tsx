@@ -0,0 +1,76 @@
+import { useMemo } from "react"
+import { Card } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { usePositionEntries } from "@/hooks/usePositionEntries"
+import type { LibraryGameSummary, PositionEntry } from "@/types/library"
+
+interface PositionSearchPanelProps {
+  fen: string
+  games: LibraryGameSummary[]
+  currentGameId: string | null
+  onOpen: (id: string, nodeId: string) => void
+}
+
+interface PositionMatch {
+  game: LibraryGameSummary
+  entry: PositionEntry
+}
+
+function formatNextMove({ moveNumber, turn, nextSan }: PositionEntry): string {
+  if (!nextSan) return `Move ${moveNumber} · final position`
+  return turn === "w" ? `${moveNumber}. ${nextSan}` : `${moveNumber}... ${nextSan}`
+}
+
+export function PositionSearchPanel({ fen, games, currentGameId, onOpen }: PositionSearchPanelProps) {
+  const entries = usePositionEntries(fen, games)
+
+  // The earliest occurrence in each other game, most recently saved games first
+  const matches = useMemo(() => {
+    const firstByGame = new Map<string, PositionEntry>()
+    for (const entry of entries) {
+      const existing = firstByGame.get(entry.gameId)
+      if (entry.gameId !== currentGameId && (!existing || entry.ply < existing.ply)) {
+        firstByGame.set(entry.gameId, entry)
+      }
+    }
+    return games.flatMap((game): PositionMatch[] => {
+      const entry = firstByGame.get(game.id)
+      return entry ? [{ game, entry }] : []
+    })
+  }, [entries, games, currentGameId])
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-foreground">Position in Library</h2>
+        <span className="text-xs text-muted-foreground">{matches.length} game(s)</span>
+      </div>
+      <Separator className="mb-4" />
+      {matches.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          This position does not occur in any other saved game.
+        </p>
+      ) : (
+        <div className="max-h-[320px] overflow-y-auto space-y-1">
+          {matches.map(({ game, entry }) => (
+            <button
+              key={game.id}
+              type="button"
+              onClick={() => onOpen(game.id, entry.nodeId)}
+              className="w-full rounded-md px-3 py-2 text-left hover:bg-accent hover:text-accent-foreground transition-colors"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-sm font-medium">{game.name}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">{game.metadata.result ?? "*"}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {entry.nextSan ? "Continued " : ""}
+                <span className="font-medium text-foreground">{formatNextMove(entry)}</span>
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,204 @@
+import {
+  ArrowCounterClockwise,
+  ArrowSquareOut,
+  CheckCircle,
+  Lightbulb,
+  MagnifyingGlass,
+  Play,
+  Stop,
+  Trash,
+  XCircle,
+} from "@phosphor-icons/react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Separator } from "@/components/ui/separator"
+import type { PuzzleStatus } from "@/hooks/usePuzzleSolver"
+import { PUZZLE_THEME_LABELS } from "@/lib/puzzles"
+import { cn } from "@/lib/utils"
+import type { Puzzle } from "@/types/puzzle"
+
+interface PuzzlePanelProps {
+  puzzles: Puzzle[]
+  activePuzzle: Puzzle | null
+  status: PuzzleStatus
+  isSolverTurn: boolean
+  canHint: boolean
+  isGenerating: boolean
+  generationProgress: number
+  onCancelGeneration: () => void
+  onStart: (id: string) => void
+  onHint: () => void
+  onRetry: () => void
+  onNext: () => void
+  onStop: () => void
+  onOpenGame: (puzzle: Puzzle) => void
+  onRemove: (id: string) => void
+  onScanLibrary: () => void
+}
+
+function formatMove({ moveNumber, fen, playedSan }: Puzzle): string {
+  return fen.split(" ")[1] === "w" ? `${moveNumber}. ${playedSan}` : `${moveNumber}... ${playedSan}`
+}
+
+function SolverStatus({ status, isSolverTurn }: { status: PuzzleStatus; isSolverTurn: boolean }) {
+  if (status === "solved") {
+    return (
+      <p className="flex items-center gap-2 text-sm font-medium text-emerald-600 dark:text-emerald-400">
+        <CheckCircle size={18} weight="fill" />
+        Solved
+      </p>
+    )
+  }
+  if (status === "incorrect") {
+    return (
+      <p className="flex items-center gap-2 text-sm font-medium text-red-600 dark:text-red-400">
+        <XCircle size={18} weight="fill" />
+        Not the best move. Retry the puzzle or ask for a hint.
+      </p>
+    )
+  }
+  return (
+    <p className="text-sm text-muted-foreground">
+      {isSolverTurn ? "Your move: find the best continuation." : "Opponent is moving…"}
+    </p>
+  )
+}
+
+export function PuzzlePanel({
+  puzzles,
+  activePuzzle,
+  status,
+  isSolverTurn,
+  canHint,
+  isGenerating,
+  generationProgress,
+  onCancelGeneration,
+  onStart,
+  onHint,
+  onRetry,
+  onNext,
+  onStop,
+  onOpenGame,
+  onRemove,
+  onScanLibrary,
+}: PuzzlePanelProps) {
+  const solvedCount = puzzles.filter((puzzle) => puzzle.solved).length
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-foreground">Puzzles</h2>
+        {activePuzzle ? (
+          <Button size="sm" variant="outline" onClick={onStop}>
+            <Stop size={16} weight="regular" className="mr-2" />
+            Stop
+          </Button>
+        ) : (
+          <span className="text-xs text-muted-foreground">
+            {solvedCount} / {puzzles.length} solved
+          </span>
+        )}
+      </div>
+      <Separator className="mb-4" />
+
+      {activePuzzle ? (
+        <div className="space-y-3">
+          <div>
+            <p className="truncate text-sm font-medium">{activePuzzle.gameName}</p>
+            <p className="text-xs text-muted-foreground">
+              {PUZZLE_THEME_LABELS[activePuzzle.theme]} · the game went {formatMove(activePuzzle)}
+            </p>
+          </div>
+          <SolverStatus status={status} isSolverTurn={isSolverTurn} />
+          <div className="flex flex-wrap gap-2">
+            {status === "solved" ? (
+              <Button size="sm" className="flex-1" onClick={onNext}>
+                <Play size={16} weight="regular" className="mr-2" />
+                Next Puzzle
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" className="flex-1" disabled={!canHint} onClick={onHint}>
+                <Lightbulb size={16} weight="regular" className="mr-2" />
+                Hint
+              </Button>
+            )}
+            <Button size="sm" variant="outline" className="flex-1" onClick={onRetry}>
+              <ArrowCounterClockwise size={16} weight="regular" className="mr-2" />
+              Retry
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onOpenGame(activePuzzle)}
+              title="Open the game at this position"
+            >
+              <ArrowSquareOut size={16} weight="regular" />
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {isGenerating && (
+            <div className="space-y-1">
+              <Progress value={generationProgress} />
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">Finding puzzles… {generationProgress}%</p>
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={onCancelGeneration}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+          {puzzles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Review a saved game to turn its blunders and missed wins into puzzles.
+            </p>
+          ) : (
+            <div className="max-h-[320px] overflow-y-auto space-y-1">
+              {puzzles.map((puzzle) => (
+                <div
+                  key={puzzle.id}
+                  className="group flex items-center gap-1 rounded-md hover:bg-accent hover:text-accent-foreground transition-colors"
+                >
+                  <button
+                    type="button"
+                    onClick={() => onStart(puzzle.id)}
+                    className="min-w-0 flex-1 px-3 py-2 text-left"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm font-medium">{puzzle.gameName}</span>
+                      {puzzle.solved && (
+                        <CheckCircle size={16} weight="fill" className="shrink-0 text-emerald-600 dark:text-emerald-400" />
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      <span className={cn(puzzle.theme === "blunder" ? "text-red-600 dark:text-red-400" : "text-orange-600 dark:text-orange-400")}>
+                        {PUZZLE_THEME_LABELS[puzzle.theme]}
+                      </span>
+                      {` · ${formatMove(puzzle)}`}
+                      {puzzle.attempts > 0 && ` · ${puzzle.attempts} attempt(s)`}
+                    </p>
+                  </button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="mr-1 opacity-0 group-hover:opacity-100"
+                    onClick={() => onRemove(puzzle.id)}
+                    title="Delete puzzle"
+                  >
+                    <Trash size={16} weight="regular" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <Button size="sm" variant="outline" className="w-full" disabled={isGenerating} onClick={onScanLibrary}>
+            <MagnifyingGlass size={16} weight="regular" className="mr-2" />
+            Find Puzzles in Library
+          </Button>
+        </div>
+      )}
+    </Card>
+  )
+}
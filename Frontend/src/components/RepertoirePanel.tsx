@@ -0,0 +1,195 @@
+import { useMemo } from "react"
+import { BookmarkSimple, CheckCircle, Play, Stop, Trash, XCircle } from "@phosphor-icons/react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Separator } from "@/components/ui/separator"
+import type { DrillFeedback } from "@/hooks/useRepertoireDrill"
+import {
+  REPERTOIRE_COLORS,
+  countDueLines,
+  findRepertoireNode,
+  getNextDueDate,
+  getRepertoireLines,
+} from "@/lib/repertoire"
+import { cn } from "@/lib/utils"
+import type { Repertoire, RepertoireColor } from "@/types/repertoire"
+
+interface RepertoirePanelProps {
+  repertoires: Record<RepertoireColor, Repertoire>
+  // The line from the start of the game to the current move
+  currentLine: string[]
+  canAddLine: boolean
+  onAddLine: (color: RepertoireColor) => void
+  onRemoveLine: (color: RepertoireColor) => void
+  onStartDrill: (color: RepertoireColor) => void
+  drillColor: RepertoireColor | null
+  drillStep: number
+  drillLength: number
+  isUserTurn: boolean
+  feedback: DrillFeedback | null
+  onStopDrill: () => void
+}
+
+const COLOR_LABELS: Record<RepertoireColor, string> = { white: "White", black: "Black" }
+
+function formatDueDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+}
+
+function DrillStatus({ feedback, isUserTurn }: { feedback: DrillFeedback | null; isUserTurn: boolean }) {
+  if (feedback?.type === "complete") {
+    return feedback.correct ? (
+      <p className="flex items-center gap-2 text-sm font-medium text-emerald-600 dark:text-emerald-400">
+        <CheckCircle size={18} weight="fill" />
+        Line complete without mistakes
+      </p>
+    ) : (
+      <p className="flex items-center gap-2 text-sm font-medium text-orange-600 dark:text-orange-400">
+        <XCircle size={18} weight="fill" />
+        Line complete. It will come back soon for another try.
+      </p>
+    )
+  }
+  if (feedback?.type === "mistake") {
+    return (
+      <p className="text-sm text-red-600 dark:text-red-400">
+        {feedback.played} is not in your repertoire. The line continues with{" "}
+        <span className="font-semibold">{feedback.expected}</span>.
+      </p>
+    )
+  }
+  if (feedback?.type === "alternative") {
+    return (
+      <p className="text-sm text-sky-600 dark:text-sky-400">
+        {feedback.played} is in your repertoire too, but this line continues with{" "}
+        <span className="font-semibold">{feedback.expected}</span>.
+      </p>
+    )
+  }
+  return (
+    <p className="text-sm text-muted-foreground">
+      {isUserTurn ? "Your move: play your repertoire reply." : "Opponent is moving…"}
+    </p>
+  )
+}
+
+export function RepertoirePanel({
+  repertoires,
+  currentLine,
+  canAddLine,
+  onAddLine,
+  onRemoveLine,
+  onStartDrill,
+  drillColor,
+  drillStep,
+  drillLength,
+  isUserTurn,
+  feedback,
+  onStopDrill,
+}: RepertoirePanelProps) {
+  const stats = useMemo(
+    () =>
+      REPERTOIRE_COLORS.map((color) => {
+        const repertoire = repertoires[color]
+        return {
+          color,
+          lineCount: getRepertoireLines(repertoire).length,
+          dueCount: countDueLines(repertoire),
+          nextDue: getNextDueDate(repertoire),
+          containsCurrent: currentLine.length > 0 && findRepertoireNode(repertoire.tree, currentLine) !== null,
+        }
+      }),
+    [repertoires, currentLine]
+  )
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-foreground">Repertoire</h2>
+        {drillColor && (
+          <Button size="sm" variant="outline" onClick={onStopDrill}>
+            <Stop size={16} weight="regular" className="mr-2" />
+            Stop Drill
+          </Button>
+        )}
+      </div>
+      <Separator className="mb-4" />
+
+      {drillColor ? (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Drilling your {COLOR_LABELS[drillColor]} repertoire</span>
+              <span>
+                {drillStep} / {drillLength} moves
+              </span>
+            </div>
+            <Progress value={drillLength > 0 ? (drillStep / drillLength) * 100 : 0} />
+          </div>
+          <DrillStatus feedback={feedback} isUserTurn={isUserTurn} />
+          {feedback?.type === "complete" && (
+            <Button size="sm" className="w-full" onClick={() => onStartDrill(drillColor)}>
+              <Play size={16} weight="regular" className="mr-2" />
+              Next Line
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {stats.map(({ color, lineCount, dueCount, nextDue, containsCurrent }) => (
+            <div key={color} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{COLOR_LABELS[color]}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {lineCount} line(s)
+                    {lineCount > 0 &&
+                      (dueCount > 0
+                        ? ` · ${dueCount} due`
+                        : nextDue !== null && ` · next due ${formatDueDate(nextDue)}`)}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant={dueCount > 0 ? "default" : "outline"}
+                  disabled={dueCount === 0}
+                  onClick={() => onStartDrill(color)}
+                >
+                  <Play size={16} weight="regular" className="mr-2" />
+                  Drill
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className={cn("flex-1", containsCurrent && "text-emerald-600 dark:text-emerald-400")}
+                  disabled={!canAddLine || containsCurrent}
+                  onClick={() => onAddLine(color)}
+                  title="Add the moves up to the current one"
+                >
+                  <BookmarkSimple size={16} weight={containsCurrent ? "fill" : "regular"} className="mr-2" />
+                  {containsCurrent ? "In repertoire" : "Add line"}
+                </Button>
+                {containsCurrent && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onRemoveLine(color)}
+                    title="Remove the current move and everything after it"
+                  >
+                    <Trash size={16} weight="regular" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Step to a move and add the line leading to it. Drills replay due lines and bring back the ones you miss.
+          </p>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { ArrowsIn, MagnifyingGlassMinus, MagnifyingGlassPlus, Ruler } from "@phosphor-icons/react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { getScoresheetRow } from "@/lib/scoresheet"
+import type { Scoresheet, ScoresheetLayout } from "@/types/library"
+
+interface ScoresheetPanelProps {
+  scoresheet: Scoresheet
+  // The move whose row is highlighted; null before the first move
+  currentMoveNumber: number | null
+  onLayoutChange: (layout: ScoresheetLayout) => void
+}
+
+interface View {
+  zoom: number
+  x: number
+  y: number
+}
+
+const MIN_ZOOM = 1
+const MAX_ZOOM = 6
+const ZOOM_STEP = 1.25
+const FIT_VIEW: View = { zoom: 1, x: 0, y: 0 }
+
+export function ScoresheetPanel({ scoresheet, currentMoveNumber, onLayoutChange }: ScoresheetPanelProps) {
+  // Slider drags stay local until released, so the library is written once per adjustment
+  const [draftLayout, setDraftLayout] = useState<ScoresheetLayout | null>(null)
+  const layout = draftLayout ?? scoresheet.layout
+  const [imageUrl, setImageUrl] = useState<string | null>(null)
+  // Height over width of the photo, known once it has loaded
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null)
+  const [view, setView] = useState<View>(FIT_VIEW)
+  const [isCalibrating, setIsCalibrating] = useState(false)
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ pointerId: number; x: number; y: number } | null>(null)
+
+  useEffect(() => {
+    const url = URL.createObjectURL(scoresheet.image)
+    setImageUrl(url)
+    setView(FIT_VIEW)
+    return () => URL.revokeObjectURL(url)
+  }, [scoresheet.image])
+
+  // Keeps the photo covering the viewport wherever it is larger than it
+  const clampView = useCallback(
+    (next: View): View => {
+      const viewport = viewportRef.current
+      if (!viewport || aspectRatio === null) return next
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next.zoom))
+      const width = viewport.clientWidth * zoom
+      const height = viewport.clientWidth * aspectRatio * zoom
+      const clamp = (value: number, size: number, available: number) =>
+        size <= available ? 0 : Math.min(0, Math.max(available - size, value))
+      return {
+        zoom,
+        x: clamp(next.x, width, viewport.clientWidth),
+        y: clamp(next.y, height, viewport.clientHeight),
+      }
+    },
+    [aspectRatio]
+  )
+
+  const zoomAround = useCallback(
+    (factor: number, originX: number, originY: number) => {
+      setView((prev) => {
+        const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * factor))
+        const scale = zoom / prev.zoom
+        return clampView({ zoom, x: originX - (originX - prev.x) * scale, y: originY - (originY - prev.y) * scale })
+      })
+    },
+    [clampView]
+  )
+
+  const zoomAtCenter = (factor: number) => {
+    const viewport = viewportRef.current
+    if (viewport) zoomAround(factor, viewport.clientWidth / 2, viewport.clientHeight / 2)
+  }
+
+  // React registers wheel listeners as passive, so the page would scroll along with the zoom
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const bounds = viewport.getBoundingClientRect()
+      zoomAround(event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, event.clientX - bounds.left, event.clientY - bounds.top)
+    }
+    viewport.addEventListener("wheel", handleWheel, { passive: false })
+    return () => viewport.removeEventListener("wheel", handleWheel)
+  }, [zoomAround])
+
+  const currentRow = currentMoveNumber !== null ? getScoresheetRow(layout, currentMoveNumber) : null
+
+  // When zoomed in, follow the game by centring the current row
+  useEffect(() => {
+    const viewport = viewportRef.current
+    const row = currentMoveNumber !== null ? getScoresheetRow(layout, currentMoveNumber) : null
+    if (!viewport || !row || aspectRatio === null) return
+    setView((prev) => {
+      if (prev.zoom <= MIN_ZOOM) return prev
+      const width = viewport.clientWidth * prev.zoom
+      const height = width * aspectRatio
+      return clampView({
+        zoom: prev.zoom,
+        x: viewport.clientWidth / 2 - (row.left + row.width / 2) * width,
+        y: viewport.clientHeight / 2 - (row.top + row.height / 2) * height,
+      })
+    })
+  }, [layout, currentMoveNumber, aspectRatio, clampView])
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag || drag.pointerId !== event.pointerId) return
+    const dx = event.clientX - drag.x
+    const dy = event.clientY - drag.y
+    dragRef.current = { ...drag, x: event.clientX, y: event.clientY }
+    setView((prev) => clampView({ ...prev, x: prev.x + dx, y: prev.y + dy }))
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId === event.pointerId) dragRef.current = null
+  }
+
+  const rowCount = layout.rows * layout.columns
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-foreground">Scoresheet</h2>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant="ghost" onClick={() => zoomAtCenter(1 / ZOOM_STEP)} title="Zoom out">
+            <MagnifyingGlassMinus size={16} weight="regular" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => zoomAtCenter(ZOOM_STEP)} title="Zoom in">
+            <MagnifyingGlassPlus size={16} weight="regular" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setView(FIT_VIEW)} title="Fit to panel">
+            <ArrowsIn size={16} weight="regular" />
+          </Button>
+          <Button
+            size="sm"
+            variant={isCalibrating ? "secondary" : "ghost"}
+            onClick={() => setIsCalibrating((value) => !value)}
+            title="Line the rows up with the sheet"
+          >
+            <Ruler size={16} weight="regular" />
+          </Button>
+        </div>
+      </div>
+      <Separator className="mb-4" />
+
+      <div
+        ref={viewportRef}
+        className="relative h-[420px] overflow-hidden rounded-md bg-muted cursor-grab active:cursor-grabbing touch-none select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={() => setView(FIT_VIEW)}
+      >
+        {imageUrl && (
+          <div
+            className="absolute left-0 top-0 w-full origin-top-left"
+            style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+          >
+            <img
+              src={imageUrl}
+              alt="Scoresheet"
+              draggable={false}
+              className="block w-full"
+              onLoad={(event) =>
+                setAspectRatio(event.currentTarget.naturalHeight / event.currentTarget.naturalWidth)
+              }
+            />
+            {isCalibrating &&
+              Array.from({ length: rowCount }, (_, index) => getScoresheetRow(layout, index + 1)).map(
+                (row, index) =>
+                  row && (
+                    <div
+                      key={index}
+                      className="pointer-events-none absolute border border-sky-500/50"
+                      style={{
+                        left: `${row.left * 100}%`,
+                        top: `${row.top * 100}%`,
+                        width: `${row.width * 100}%`,
+                        height: `${row.height * 100}%`,
+                      }}
+                    />
+                  )
+              )}
+            {currentRow && (
+              <div
+                className="pointer-events-none absolute rounded-sm bg-amber-400/30 ring-2 ring-amber-500 transition-all duration-200"
+                style={{
+                  left: `${currentRow.left * 100}%`,
+                  top: `${currentRow.top * 100}%`,
+                  width: `${currentRow.width * 100}%`,
+                  height: `${currentRow.height * 100}%`,
+                }}
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      {isCalibrating ? (
+        <div className="mt-4 space-y-4">
+          <div className="space-y-2">
+            <Label>First row top / last row bottom</Label>
+            <Slider
+              min={0}
+              max={100}
+              step={0.5}
+              value={[layout.top * 100, layout.bottom * 100]}
+              onValueChange={([top, bottom]) =>
+                bottom > top && setDraftLayout({ ...layout, top: top / 100, bottom: bottom / 100 })
+              }
+              onValueCommit={() => {
+                if (draftLayout) onLayoutChange(draftLayout)
+                setDraftLayout(null)
+              }}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="scoresheet-rows">Rows per column</Label>
+            <Input
+              id="scoresheet-rows"
+              type="number"
+              min={1}
+              max={100}
+              value={layout.rows}
+              onChange={(event) => {
+                const rows = parseInt(event.target.value, 10)
+                if (rows >= 1 && rows <= 100) onLayoutChange({ ...layout, rows })
+              }}
+              className="w-20"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="scoresheet-columns" className="leading-snug">
+              Two columns (moves continue at the top right)
+            </Label>
+            <Switch
+              id="scoresheet-columns"
+              checked={layout.columns === 2}
+              onCheckedChange={(checked) => onLayoutChange({ ...layout, columns: checked ? 2 : 1 })}
+            />
+          </div>
+        </div>
+      ) : (
+        <p className="mt-2 text-xs text-muted-foreground">
+          Scroll to zoom and drag to pan. If the highlight is off, line the rows up with the ruler.
+        </p>
+      )}
+    </Card>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useRef } from "react"
+import { useMemo, useState, useRef } from "react"
 import {
   Dialog,
   DialogContent,
@@ -12,18 +12,30 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import { Textarea } from "@/components/ui/textarea"
 import { GameLoadingOverlay } from "@/components/GameLoadingOverlay"
+import { GamePickerList } from "@/components/GamePickerList"
+import { MoveReviewList } from "@/components/MoveReviewList"
+import { PositionEditorDialog } from "@/components/PositionEditorDialog"
+import { Input } from "@/components/ui/input"
 import { UploadSimple, Warning, CheckCircle, Info } from "@phosphor-icons/react"
 import {
+  formatHistoryAsPgn,
   parseCSV,
   parseImage,
   parsePgnTextInput,
+  type ExtractedMove,
   type ParseResult,
 } from "@/lib/parseChessNotation"
+import { countLegalMoves, replayExtractedMoves } from "@/lib/ocrReview"
+import { metadataFromParsedGame } from "@/lib/gameMetadata"
+import { validateFenInput } from "@/lib/positionSetup"
+import { cn } from "@/lib/utils"
+import type { ParsedGame } from "@/types/chess"
 
 interface UploadDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onGameLoaded: (pgn: string, warning?: string) => void
+  onGameLoaded: (result: ParseResult) => void
+  onPositionLoaded: (fen: string) => void
 }
 
 type LoadingStage = "uploading" | "extracting" | "validating" | "complete"
@@ -32,13 +44,21 @@ export function UploadDialog({
   open,
   onOpenChange,
   onGameLoaded,
+  onPositionLoaded,
 }: UploadDialogProps) {
   const [isProcessing, setIsProcessing] = useState(false)
   const [loadingStage, setLoadingStage] = useState<LoadingStage>("uploading")
   const [result, setResult] = useState<ParseResult | null>(null)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [inputMode, setInputMode] = useState<"file" | "pgn">("file")
+  const [inputMode, setInputMode] = useState<"file" | "pgn" | "fen" | "games" | "review">("file")
+  const [fenInput, setFenInput] = useState("")
+  const [isEditorOpen, setIsEditorOpen] = useState(false)
   const [pgnInput, setPgnInput] = useState("")
+  const [databaseGames, setDatabaseGames] = useState<ParsedGame[]>([])
+  const [selectedGameIndex, setSelectedGameIndex] = useState<number | null>(null)
+  // A scoresheet read waiting to be checked move by move before it is loaded
+  const [reviewResult, setReviewResult] = useState<ParseResult | null>(null)
+  const [reviewMoves, setReviewMoves] = useState<ExtractedMove[]>([])
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -50,6 +70,79 @@ export function UploadDialog({
     }
   }
 
+  const handleParseResult = (parseResult: ParseResult) => {
+    if (parseResult.success && parseResult.games && parseResult.games.length > 1) {
+      // Reopen the dialog on the picker so the user chooses which game to load
+      setDatabaseGames(parseResult.games)
+      setSelectedGameIndex(null)
+      setResult(null)
+      setInputMode("games")
+      onOpenChange(true)
+      return
+    }
+
+    if (parseResult.success && parseResult.extractedMoves && parseResult.extractedMoves.length > 0) {
+      // Reopen the dialog on the review so every move can be checked before loading
+      setReviewResult(parseResult)
+      setReviewMoves(parseResult.extractedMoves)
+      setResult(null)
+      setInputMode("review")
+      onOpenChange(true)
+      return
+    }
+
+    setResult(parseResult)
+
+    if (parseResult.success && parseResult.pgn) {
+      onGameLoaded(parseResult)
+    } else if (parseResult.error) {
+      alert(parseResult.error)
+    }
+  }
+
+  const handleOpenDatabaseGame = (index: number) => {
+    const game = databaseGames[index]
+    if (!game) return
+
+    setSelectedGameIndex(index)
+    onGameLoaded({
+      success: true,
+      game,
+      metadata: metadataFromParsedGame(game),
+      source: "pgn",
+      movesFound: Math.ceil(game.moves.length / 2),
+    })
+  }
+
+  const reviewedMoves = useMemo(() => replayExtractedMoves(reviewMoves), [reviewMoves])
+  const loadableMoveCount = countLegalMoves(reviewedMoves)
+
+  const handleEditMove = (ply: number, san: string) => {
+    setReviewMoves((prev) =>
+      prev.map((move, index) =>
+        // A move the user has checked is no longer in doubt
+        index === ply ? { ...move, san, confidence: "high", corrected: false } : move
+      )
+    )
+  }
+
+  const handleLoadReviewedGame = () => {
+    if (!reviewResult || loadableMoveCount === 0) return
+
+    const sans = reviewedMoves.slice(0, loadableMoveCount).map((move) => move.san)
+    const movesFound = Math.ceil(sans.length / 2)
+    const isPartial = loadableMoveCount < reviewedMoves.length ||
+      (reviewResult.totalMovesInImage !== undefined && movesFound < reviewResult.totalMovesInImage)
+    onGameLoaded({
+      ...reviewResult,
+      pgn: formatHistoryAsPgn(sans),
+      movesFound,
+      isPartial,
+      imageQualityWarning: isPartial ? reviewResult.imageQualityWarning : undefined,
+      extractedMoves: reviewMoves,
+    })
+  }
+
   const handleUpload = async () => {
     if (!selectedFile) return
 
@@ -71,7 +164,7 @@ export function UploadDialog({
 
       if (fileType === "text/csv" || fileName.endsWith(".csv")) {
         setLoadingStage("extracting")
-        parseResult = await parseCSV(selectedFile)
+        parseResult = { ...(await parseCSV(selectedFile)), source: "csv" }
       } else if (
         fileName.endsWith(".pgn") ||
         fileType === "application/x-chess-pgn" ||
@@ -80,7 +173,7 @@ export function UploadDialog({
       ) {
         setLoadingStage("extracting")
         const text = await selectedFile.text()
-        parseResult = await parsePgnTextInput(text)
+        parseResult = { ...(await parsePgnTextInput(text)), source: "pgn" }
       } else if (
         fileType.startsWith("image/") ||
         fileName.endsWith(".png") ||
@@ -88,7 +181,7 @@ export function UploadDialog({
         fileName.endsWith(".jpeg")
       ) {
         setLoadingStage("extracting")
-        parseResult = await parseImage(selectedFile)
+        parseResult = { ...(await parseImage(selectedFile)), source: "image", image: selectedFile }
       } else {
         parseResult = {
           success: false,
@@ -102,14 +195,7 @@ export function UploadDialog({
       setLoadingStage("complete")
       await new Promise(resolve => setTimeout(resolve, 1200))
 
-      setResult(parseResult)
-
-      if (parseResult.success && parseResult.pgn) {
-        onGameLoaded(parseResult.pgn, parseResult.imageQualityWarning)
-      } else if (parseResult.error) {
-        // Show error toast if parsing failed
-        alert(parseResult.error)
-      }
+      handleParseResult(parseResult)
     } catch (error) {
       const errorResult = {
         success: false,
@@ -134,18 +220,12 @@ export function UploadDialog({
       onOpenChange(false)
 
       try {
-        const parseResult = await parsePgnTextInput(pgnInput)
+        const parseResult: ParseResult = { ...(await parsePgnTextInput(pgnInput)), source: "pgn" }
         
         setLoadingStage("complete")
         await new Promise(resolve => setTimeout(resolve, 800))
         
-        setResult(parseResult)
-
-        if (parseResult.success && parseResult.pgn) {
-          onGameLoaded(parseResult.pgn, parseResult.imageQualityWarning)
-        } else if (parseResult.error) {
-          alert(parseResult.error)
-        }
+        handleParseResult(parseResult)
       } catch (error) {
         const errorResult = {
           success: false,
@@ -160,7 +240,7 @@ export function UploadDialog({
     }
 
     const handleModeChange = (value: string) => {
-      const mode = value === "pgn" ? "pgn" : "file"
+      const mode = value === "pgn" || value === "fen" || value === "games" || value === "review" ? value : "file"
       setInputMode(mode)
       setResult(null)
       setLoadingStage("uploading")
@@ -173,16 +253,32 @@ export function UploadDialog({
     setIsProcessing(false)
     setLoadingStage("uploading")
       setPgnInput("")
+      setFenInput("")
       setInputMode("file")
     onOpenChange(false)
   }
 
-    const canSubmit = inputMode === "file" ? Boolean(selectedFile) : Boolean(pgnInput.trim())
+    const fenValidation = fenInput.trim() ? validateFenInput(fenInput) : null
+    const canSubmit = inputMode === "file"
+      ? Boolean(selectedFile)
+      : inputMode === "games"
+        ? selectedGameIndex !== null
+        : inputMode === "review"
+          ? loadableMoveCount > 0
+          : inputMode === "fen"
+          ? Boolean(fenValidation?.valid)
+          : Boolean(pgnInput.trim())
     const primaryLabel = result?.success
       ? "Done"
       : inputMode === "file"
         ? "Upload"
-        : "Load PGN"
+        : inputMode === "games"
+          ? "Open Game"
+          : inputMode === "review"
+            ? "Load Game"
+            : inputMode === "fen"
+            ? "Load Position"
+            : "Load PGN"
 
     const handlePrimaryAction = () => {
       if (result?.success) {
@@ -192,6 +288,16 @@ export function UploadDialog({
 
       if (inputMode === "file") {
         void handleUpload()
+      } else if (inputMode === "fen") {
+        if (fenValidation?.valid) {
+          onPositionLoaded(fenInput.trim())
+        }
+      } else if (inputMode === "games") {
+        if (selectedGameIndex !== null) {
+          handleOpenDatabaseGame(selectedGameIndex)
+        }
+      } else if (inputMode === "review") {
+        handleLoadReviewedGame()
       } else {
         void handlePgnSubmit()
       }
@@ -202,19 +308,31 @@ export function UploadDialog({
       <GameLoadingOverlay isLoading={isProcessing} stage={loadingStage} />
       
       <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[520px] max-h-[90vh] flex flex-col">
+      <DialogContent className={`${inputMode === "games" || inputMode === "review" ? "sm:max-w-[760px]" : "sm:max-w-[520px]"} max-h-[90vh] flex flex-col`}>
         <DialogHeader>
           <DialogTitle>Upload Chess Game</DialogTitle>
           <DialogDescription>
-              Upload a CSV/image/PGN file or paste PGN text to analyze the game
+              Upload a CSV/image/PGN file, paste PGN text, or set up a position to analyze
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4 flex-1 overflow-y-auto pr-[2px]">
             <Tabs value={inputMode} onValueChange={handleModeChange}>
-              <TabsList className="grid grid-cols-2">
+              <TabsList
+                className={cn(
+                  "grid",
+                  ["grid-cols-3", "grid-cols-4", "grid-cols-5"][
+                    Number(databaseGames.length > 0) + Number(reviewMoves.length > 0)
+                  ]
+                )}
+              >
                 <TabsTrigger value="file">Upload File</TabsTrigger>
                 <TabsTrigger value="pgn">Paste PGN</TabsTrigger>
+                <TabsTrigger value="fen">Position</TabsTrigger>
+                {databaseGames.length > 0 && (
+                  <TabsTrigger value="games">Games ({databaseGames.length})</TabsTrigger>
+                )}
+                {reviewMoves.length > 0 && <TabsTrigger value="review">Review</TabsTrigger>}
               </TabsList>
 
               <TabsContent value="file" className="mt-4 space-y-2">
@@ -242,7 +360,7 @@ export function UploadDialog({
                   />
                 </div>
                 <p className="text-xs text-muted-foreground text-center">
-                  CSV: columns for White/Black. PGN: export from lichess, Chess.com, etc.
+                  CSV: columns for White/Black. PGN: export from lichess, Chess.com, etc. Multi-game files open a game picker.
                 </p>
               </TabsContent>
 
@@ -257,6 +375,50 @@ export function UploadDialog({
                   We handle headers, comments, nested variations, and shorthand castling automatically.
                 </p>
               </TabsContent>
+
+              <TabsContent value="fen" className="mt-4 space-y-3">
+                <Input
+                  value={fenInput}
+                  onChange={(event) => setFenInput(event.target.value)}
+                  placeholder="rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1"
+                  className="font-mono text-xs"
+                />
+                {fenValidation && !fenValidation.valid && (
+                  <p className="text-xs text-destructive">{fenValidation.error}</p>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsEditorOpen(true)}
+                >
+                  Open Board Editor
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Paste a FEN or compose the position on the board editor to start analysis from it.
+                </p>
+              </TabsContent>
+
+              {databaseGames.length > 0 && (
+                <TabsContent value="games" className="mt-4">
+                  <GamePickerList
+                    games={databaseGames}
+                    selectedIndex={selectedGameIndex}
+                    onSelect={setSelectedGameIndex}
+                    onOpen={handleOpenDatabaseGame}
+                  />
+                </TabsContent>
+              )}
+
+              {reviewMoves.length > 0 && (
+                <TabsContent value="review" className="mt-4 space-y-3">
+                  <MoveReviewList moves={reviewedMoves} onEditMove={handleEditMove} />
+                  <p className="text-xs text-muted-foreground">
+                    {loadableMoveCount < reviewedMoves.length
+                      ? `Only the first ${loadableMoveCount} move(s) are legal. Fix the crossed-out move to load the rest.`
+                      : "Click a move to correct it. Suggestions are the legal moves closest to what was read."}
+                  </p>
+                </TabsContent>
+              )}
             </Tabs>
 
           {result && !isProcessing && (
@@ -295,6 +457,13 @@ export function UploadDialog({
         </DialogFooter>
       </DialogContent>
     </Dialog>
+
+      <PositionEditorDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        initialFen={fenValidation?.valid ? fenInput.trim() : undefined}
+        onApply={setFenInput}
+      />
     </>
   )
 }
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from "react"
+import { getPlayerSide } from "@/lib/gameMetadata"
+import type { GameMetadata } from "@/types/chess"
+
+const PLAYER_NAME_KEY = "nf3pro.playerName"
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+}
+
+export function useBoardOrientation(metadata: GameMetadata) {
+  const [playerName, setPlayerNameState] = useState(() => localStorage.getItem(PLAYER_NAME_KEY) ?? "")
+  const [isFlipped, setIsFlipped] = useState(false)
+
+  const playerSide = getPlayerSide(metadata, playerName)
+  const baseOrientation = playerSide ?? "white"
+  const orientation = isFlipped
+    ? (baseOrientation === "white" ? "black" : "white")
+    : baseOrientation
+
+  // A manual flip only lasts for the game it was made in
+  useEffect(() => {
+    setIsFlipped(false)
+  }, [metadata.white, metadata.black])
+
+  const flipBoard = useCallback(() => {
+    setIsFlipped((prev) => !prev)
+  }, [])
+
+  const setPlayerName = useCallback((name: string) => {
+    setPlayerNameState(name)
+    setIsFlipped(false)
+    if (name.trim()) {
+      localStorage.setItem(PLAYER_NAME_KEY, name)
+    } else {
+      localStorage.removeItem(PLAYER_NAME_KEY)
+    }
+  }, [])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== "f" || event.ctrlKey || event.metaKey || event.altKey) return
+      if (isTypingTarget(event.target)) return
+      flipBoard()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [flipBoard])
+
+  return {
+    orientation,
+    playerSide,
+    playerName,
+    setPlayerName,
+    flipBoard,
+  }
+}
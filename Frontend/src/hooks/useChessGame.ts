@@ -1,8 +1,38 @@
-import { useState, useCallback, useEffect, useRef } from "react"
+import { useState, useCallback, useRef } from "react"
 import { Chess } from "chess.js"
-import type { Square, Move } from "chess.js"
+import type { Square } from "chess.js"
 import { getMoveHistory, createNewGame } from "@/lib/chessUtils"
-import type { GameState, PlayedMove } from "@/types/chess"
+import { parsePgnGame } from "@/lib/pgnParser"
+import { metadataFromParsedGame } from "@/lib/gameMetadata"
+import { applyPositionEvaluation, type PositionEvaluation } from "@/lib/gameReview"
+import { buildGameReport } from "@/lib/gameReport"
+import { toggleArrow, toggleSquare } from "@/lib/boardAnnotations"
+import { exportPgn, type PgnExportOptions } from "@/lib/pgnExport"
+import { identifyOpening } from "@/lib/openings"
+import type { ReviewPosition } from "@/types/engine"
+import {
+  addMove,
+  buildMoveTree,
+  createMoveTree,
+  getLineEnd,
+  getMainLineAncestor,
+  getNodePath,
+  getRootNode,
+  getVariationOptions,
+  isAncestorOf,
+  isMainLineNode,
+  toPlayedMoves,
+} from "@/lib/moveTree"
+import type {
+  ArrowAnnotation,
+  GameMetadata,
+  GameState,
+  MoveNode,
+  MoveTree,
+  ParsedGame,
+  PromotionPiece,
+  SquareAnnotation,
+} from "@/types/chess"
 
 const FILES = ["a", "b", "c", "d", "e", "f", "g", "h"]
 
@@ -19,77 +49,86 @@ function findKingSquare(chess: Chess, color: "w" | "b"): string | null {
   return null
 }
 
+function buildGameState(
+  tree: MoveTree,
+  nodeId: string,
+  lineEndId: string,
+  metadata: GameMetadata
+): GameState {
+  const node = tree.nodes[nodeId]
+  const line = getNodePath(tree, lineEndId)
+  const currentMoveIndex = line.findIndex((lineNode) => lineNode.id === nodeId)
+  const followingNode = line[currentMoveIndex + 1] ?? null
+
+  // Replay the active line so the PGN carries the same move numbering as the board
+  const lineGame = new Chess(getRootNode(tree).fen)
+  for (const lineNode of line) {
+    lineGame.move(lineNode.san)
+  }
+
+  const chess = new Chess(node.fen)
+  const checkSquare = chess.inCheck() ? findKingSquare(chess, chess.turn()) : null
+  const playedFens = [getRootNode(tree).fen, ...line.slice(0, currentMoveIndex + 1).map(({ fen }) => fen)]
+
+  return {
+    fen: node.fen,
+    pgn: lineGame.pgn(),
+    moveHistory: getMoveHistory(toPlayedMoves(tree, line), getRootNode(tree).ply),
+    currentMoveIndex,
+    currentNodeId: nodeId,
+    variations: getVariationOptions(tree, nodeId, followingNode?.id ?? null),
+    comment: node.comment ?? null,
+    evaluation: node.evaluation ?? null,
+    annotations: node.annotations ?? null,
+    opening: identifyOpening(playedFens),
+    metadata,
+    checkSquare,
+    lastMove: node.lastMove,
+  }
+}
+
 export function useChessGame() {
+  const treeRef = useRef<MoveTree>(createMoveTree())
+  const lineEndRef = useRef<string>(treeRef.current.rootId)
+  const metadataRef = useRef<GameMetadata>({})
+  const currentNodeRef = useRef<string>(treeRef.current.rootId)
   const [game, setGame] = useState<Chess>(() => createNewGame())
-  const [gameState, setGameState] = useState<GameState>({
-    fen: createNewGame().fen(),
-    pgn: "",
-    moveHistory: [],
-    currentMoveIndex: -1,
-    checkSquare: null,
-    lastMove: null,
-  })
-  const [mainLinePgn, setMainLinePgn] = useState<string>("")
-  const [isInAnalysisMode, setIsInAnalysisMode] = useState(false)
-  const historyRef = useRef<PlayedMove[]>([])
-
-  const updateGameState = useCallback((chess: Chess, moveIndex?: number, fullHistory?: PlayedMove[]) => {
-    // Get full move history from either the passed fullHistory or stored historyRef
-    const allMoves = fullHistory || historyRef.current
-    
-    // Create a new Chess instance with full game to get complete move history
-    const fullGame = new Chess()
-    for (const move of allMoves) {
-      try {
-        fullGame.move(move.san)
-      } catch {
-        break
-      }
+  const [gameState, setGameState] = useState<GameState>(() =>
+    buildGameState(treeRef.current, treeRef.current.rootId, treeRef.current.rootId, metadataRef.current)
+  )
+  const [hasLoadedGame, setHasLoadedGame] = useState(false)
+  // Bumped whenever the game itself changes (not on navigation or loading) so callers can persist it
+  const [revision, setRevision] = useState(0)
+  const markChanged = useCallback(() => setRevision((prev) => prev + 1), [])
+
+  const updateGameState = useCallback((nodeId: string) => {
+    const tree = treeRef.current
+
+    // Keep the active line when moving inside it, otherwise follow the new branch to its end
+    if (!isAncestorOf(tree, nodeId, lineEndRef.current)) {
+      lineEndRef.current = getLineEnd(tree, nodeId)
     }
-    
-    const moveHistory = getMoveHistory(allMoves)
-    const verboseHistory = chess.history({ verbose: true }) as Move[]
-    const recentMove = verboseHistory[verboseHistory.length - 1] ?? null
-    const lastMove = recentMove ? { from: recentMove.from, to: recentMove.to } : null
-    const colorToMove = chess.turn()
-    const isInCheck = chess.inCheck()
-    const checkSquare = isInCheck ? findKingSquare(chess, colorToMove) : null
-    
-    setGameState({
-      fen: chess.fen(),
-      pgn: fullGame.pgn(),
-      moveHistory,
-      currentMoveIndex: moveIndex ?? allMoves.length - 1,
-      checkSquare,
-      lastMove,
-    })
+
+    currentNodeRef.current = nodeId
+    setGame(new Chess(tree.nodes[nodeId].fen))
+    setGameState(buildGameState(tree, nodeId, lineEndRef.current, metadataRef.current))
   }, [])
 
   const makeMove = useCallback(
-    (sourceSquare: Square, targetSquare: Square) => {
+    (sourceSquare: Square, targetSquare: Square, promotion: PromotionPiece = "q") => {
       try {
-        const gameCopy = new Chess(game.fen())
+        const tree = treeRef.current
+        const gameCopy = new Chess(tree.nodes[gameState.currentNodeId].fen)
         const move = gameCopy.move({
           from: sourceSquare,
           to: targetSquare,
-          promotion: "q",
+          promotion,
         })
 
         if (move) {
-          const currentIndex = gameState.currentMoveIndex
-          const preservedMoves = historyRef.current.slice(0, currentIndex + 1)
-          const newRecordedMove: PlayedMove = {
-            san: move.san,
-            isCustom: Boolean(mainLinePgn),
-          }
-          historyRef.current = [...preservedMoves, newRecordedMove]
-          setGame(gameCopy)
-          updateGameState(gameCopy)
-          
-          if (mainLinePgn && !isInAnalysisMode) {
-            setIsInAnalysisMode(true)
-          }
-          
+          const node = addMove(tree, gameState.currentNodeId, move)
+          updateGameState(node.id)
+          markChanged()
           return true
         }
         return false
@@ -97,55 +136,47 @@ export function useChessGame() {
         return false
       }
     },
-    [game, updateGameState, mainLinePgn, isInAnalysisMode, gameState.currentMoveIndex]
+    [gameState.currentNodeId, updateGameState, markChanged]
   )
 
-  const resetGame = useCallback(() => {
-    const newGame = createNewGame()
-    setGame(newGame)
-    updateGameState(newGame)
-    setMainLinePgn("")
-    setIsInAnalysisMode(false)
-    historyRef.current = []
+  const resetGame = useCallback((startFen?: string) => {
+    treeRef.current = createMoveTree(startFen)
+    lineEndRef.current = treeRef.current.rootId
+    metadataRef.current = {}
+    setHasLoadedGame(false)
+    updateGameState(treeRef.current.rootId)
   }, [updateGameState])
 
-  const loadPgn = useCallback(
-    (pgn: string) => {
+  const loadPosition = useCallback(
+    (fen: string) => {
+      try {
+        createNewGame(fen)
+      } catch {
+        return false
+      }
+      resetGame(fen)
+      return true
+    },
+    [resetGame]
+  )
+
+  const loadGame = useCallback(
+    (parsedGame: ParsedGame, metadata?: GameMetadata) => {
       try {
-        const newGame = new Chess()
-        
-        const cleanPgn = pgn
-          .replace(/```pgn\s*/gi, '')
-          .replace(/```\s*/g, '')
-          .replace(/\*\*/g, '')
-          .replace(/##\s*/g, '')
-          .replace(/0\s*-\s*0\s*-\s*0/g, 'O-O-O')
-          .replace(/0\s*-\s*0/g, 'O-O')
-          .replace(/[oО]\s*-\s*[oО]\s*-\s*[oО]/gi, 'O-O-O')
-          .replace(/[oО]\s*-\s*[oО]/gi, 'O-O')
-          .replace(/\bO\s*-\s*O\s*-\s*O\b/g, 'O-O-O')
-          .replace(/\bO\s*-\s*O\b/g, 'O-O')
-          .trim()
-        
-        newGame.loadPgn(cleanPgn)
-        
-        const allMoves = newGame.history()
-        const recordedMoves: PlayedMove[] = allMoves.map((san) => ({
-          san,
-          isCustom: false,
-        }))
-        
-        if (recordedMoves.length === 0) {
+        const tree = buildMoveTree(parsedGame)
+        const lastNodeId = getLineEnd(tree, tree.rootId)
+
+        if (lastNodeId === tree.rootId) {
           return false
         }
-        
-        historyRef.current = recordedMoves
-        setGame(newGame)
-        updateGameState(newGame, recordedMoves.length - 1, recordedMoves)
-        setMainLinePgn(cleanPgn)
-        setIsInAnalysisMode(false)
+
+        treeRef.current = tree
+        lineEndRef.current = lastNodeId
+        metadataRef.current = metadata ?? metadataFromParsedGame(parsedGame)
+        setHasLoadedGame(true)
+        updateGameState(lastNodeId)
         return true
-      } catch (error) {
+      } catch {
         // Silent fail - errors are handled at upload level
         return false
       }
@@ -153,37 +184,124 @@ export function useChessGame() {
     [updateGameState]
   )
 
+  const loadTree = useCallback(
+    (tree: MoveTree, metadata: GameMetadata) => {
+      treeRef.current = structuredClone(tree)
+      lineEndRef.current = getLineEnd(treeRef.current, treeRef.current.rootId)
+      metadataRef.current = metadata
+      setHasLoadedGame(lineEndRef.current !== treeRef.current.rootId)
+      updateGameState(lineEndRef.current)
+    },
+    [updateGameState]
+  )
+
+  const getTree = useCallback(() => treeRef.current, [])
+  // The main continuation from the current position, which is the game move on the main line
+  const getNextMove = useCallback((): MoveNode | null => {
+    const tree = treeRef.current
+    return tree.nodes[tree.nodes[currentNodeRef.current].children[0]] ?? null
+  }, [])
+  const getMetadata = useCallback(() => metadataRef.current, [])
+
+  const loadPgn = useCallback(
+    (pgn: string, metadata?: GameMetadata) => {
+      const cleanPgn = pgn
+        .replace(/```pgn\s*/gi, '')
+        .replace(/```\s*/g, '')
+        .replace(/\*\*/g, '')
+        .replace(/##\s*/g, '')
+        .replace(/0\s*-\s*0\s*-\s*0/g, 'O-O-O')
+        .replace(/0\s*-\s*0/g, 'O-O')
+        .replace(/[oО]\s*-\s*[oО]\s*-\s*[oО]/gi, 'O-O-O')
+        .replace(/[oО]\s*-\s*[oО]/gi, 'O-O')
+        .replace(/\bO\s*-\s*O\s*-\s*O\b/g, 'O-O-O')
+        .replace(/\bO\s*-\s*O\b/g, 'O-O')
+        .trim()
+
+      const parsedGame = parsePgnGame(cleanPgn)
+      return parsedGame ? loadGame(parsedGame, metadata) : false
+    },
+    [loadGame]
+  )
+
+  const updateMetadata = useCallback((changes: Partial<GameMetadata>) => {
+    metadataRef.current = { ...metadataRef.current, ...changes }
+    setGameState((prev) => ({ ...prev, metadata: metadataRef.current }))
+    markChanged()
+  }, [markChanged])
+
+  const getMainLinePositions = useCallback((): ReviewPosition[] => {
+    const tree = treeRef.current
+    const root = getRootNode(tree)
+    const mainLine = getNodePath(tree, getLineEnd(tree, tree.rootId))
+    return [root, ...mainLine].map((node) => ({ nodeId: node.id, fen: node.fen }))
+  }, [])
+
+  const applyEvaluation = useCallback((position: ReviewPosition, evaluation: PositionEvaluation) => {
+    const tree = treeRef.current
+    const { nodeId, fen } = position
+
+    // Results from a review of a game that has since been replaced are dropped
+    if (tree.nodes[nodeId]?.fen !== fen) return
+
+    // Not marked as a change: the caller saves the reviewed tree once, not after every ply
+    applyPositionEvaluation(tree, nodeId, evaluation)
+    setGameState(buildGameState(tree, currentNodeRef.current, lineEndRef.current, metadataRef.current))
+  }, [])
+
+  const toggleArrowAnnotation = useCallback((arrow: ArrowAnnotation) => {
+    const tree = treeRef.current
+    const node = tree.nodes[currentNodeRef.current]
+    node.annotations = toggleArrow(node.annotations, arrow)
+    setGameState(buildGameState(tree, node.id, lineEndRef.current, metadataRef.current))
+    markChanged()
+  }, [markChanged])
+
+  const toggleSquareAnnotation = useCallback((highlight: SquareAnnotation) => {
+    const tree = treeRef.current
+    const node = tree.nodes[currentNodeRef.current]
+    node.annotations = toggleSquare(node.annotations, highlight)
+    setGameState(buildGameState(tree, node.id, lineEndRef.current, metadataRef.current))
+    markChanged()
+  }, [markChanged])
+
+  const getGameReport = useCallback(() => buildGameReport(treeRef.current), [])
+
+  const getPgn = useCallback(
+    (options?: PgnExportOptions) => exportPgn(treeRef.current, metadataRef.current, options),
+    []
+  )
+
+  const goToNode = useCallback(
+    (nodeId: string) => {
+      if (!treeRef.current.nodes[nodeId]) {
+        return false
+      }
+      updateGameState(nodeId)
+      return true
+    },
+    [updateGameState]
+  )
+
   const goToMove = useCallback(
     (moveIndex: number) => {
-      try {
-        const newGame = new Chess()
-        const moves = historyRef.current
+      const tree = treeRef.current
+      const line = getNodePath(tree, lineEndRef.current)
+      const target = moveIndex < 0 ? tree.rootId : line[moveIndex]?.id
 
-        for (let i = 0; i <= moveIndex; i++) {
-          if (moves[i]) {
-            newGame.move(moves[i].san)
-          }
-        }
-
-        setGame(newGame)
-        updateGameState(newGame, moveIndex)
-        return true
-      } catch {
+      if (!target) {
         return false
       }
+
+      updateGameState(target)
+      return true
     },
     [updateGameState]
   )
 
   const goToFirst = useCallback(() => {
-    const newGame = new Chess()
-    if (mainLinePgn) {
-      newGame.loadPgn(mainLinePgn)
-      newGame.reset()
-    }
-    setGame(newGame)
-    updateGameState(newGame, -1)
-  }, [mainLinePgn, updateGameState])
+    updateGameState(treeRef.current.rootId)
+  }, [updateGameState])
 
   const goToPrevious = useCallback(() => {
     if (gameState.currentMoveIndex >= 0) {
@@ -192,24 +310,24 @@ export function useChessGame() {
   }, [gameState.currentMoveIndex, goToMove])
 
   const goToNext = useCallback(() => {
-    const moves = historyRef.current
-    if (gameState.currentMoveIndex < moves.length - 1) {
+    const lineLength = getNodePath(treeRef.current, lineEndRef.current).length
+    if (gameState.currentMoveIndex < lineLength - 1) {
       goToMove(gameState.currentMoveIndex + 1)
     }
   }, [gameState.currentMoveIndex, goToMove])
 
   const goToLast = useCallback(() => {
-    const moves = historyRef.current
-    if (moves.length > 0) {
-      goToMove(moves.length - 1)
-    }
-  }, [goToMove])
+    updateGameState(lineEndRef.current)
+  }, [updateGameState])
+
+  const isInAnalysisMode = hasLoadedGame && !isMainLineNode(treeRef.current, gameState.currentNodeId)
 
   const returnToMainGame = useCallback(() => {
-    if (mainLinePgn) {
-      loadPgn(mainLinePgn)
-    }
-  }, [mainLinePgn, loadPgn])
+    const tree = treeRef.current
+    const branchPoint = getMainLineAncestor(tree, gameState.currentNodeId)
+    lineEndRef.current = getLineEnd(tree, tree.rootId)
+    updateGameState(branchPoint)
+  }, [gameState.currentNodeId, updateGameState])
 
   return {
     game,
@@ -217,13 +335,28 @@ export function useChessGame() {
     makeMove,
     resetGame,
     loadPgn,
+    loadGame,
+    loadPosition,
+    loadTree,
+    getTree,
+    getMetadata,
+    getNextMove,
+    revision,
+    updateMetadata,
     goToMove,
+    goToNode,
     goToFirst,
     goToPrevious,
     goToNext,
     goToLast,
     isInAnalysisMode,
+    isGameLoaded: hasLoadedGame,
     returnToMainGame,
+    getMainLinePositions,
+    applyEvaluation,
+    getGameReport,
+    getPgn,
+    toggleArrowAnnotation,
+    toggleSquareAnnotation,
   }
 }
-
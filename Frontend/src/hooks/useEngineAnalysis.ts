@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback, useRef } from "react"
+import { Chess } from "chess.js"
+import { createStockfishEngine, DEFAULT_ENGINE_SETTINGS, type StockfishEngine } from "@/lib/stockfishEngine"
+import type { EngineAnalysis, EngineSettings } from "@/types/engine"
+
+export function useEngineAnalysis(fen: string, onEngineError?: () => void) {
+  const engineRef = useRef<StockfishEngine | null>(null)
+  const errorCallbackRef = useRef(onEngineError)
+  errorCallbackRef.current = onEngineError
+  const [isRunning, setIsRunning] = useState(false)
+  const [settings, setSettings] = useState<EngineSettings>(DEFAULT_ENGINE_SETTINGS)
+  const [analysis, setAnalysis] = useState<EngineAnalysis | null>(null)
+
+  useEffect(() => {
+    return () => {
+      engineRef.current?.terminate()
+      engineRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isRunning) {
+      engineRef.current?.stop()
+      return
+    }
+
+    setAnalysis(null)
+
+    // Finished games have nothing left to search
+    if (new Chess(fen).isGameOver()) {
+      engineRef.current?.stop()
+      return
+    }
+
+    // The engine is only spun up on first use so the WASM download stays optional
+    if (!engineRef.current) {
+      const engine = createStockfishEngine(() => {
+        // A failed engine is dropped so the next start tries a fresh one
+        if (engineRef.current === engine) engineRef.current = null
+        setIsRunning(false)
+        errorCallbackRef.current?.()
+      })
+      engineRef.current = engine
+    }
+
+    engineRef.current.analyse(fen, settings, (update) => {
+      if (update.fen === fen) {
+        setAnalysis(update)
+      }
+    })
+  }, [fen, isRunning, settings])
+
+  const startAnalysis = useCallback(() => {
+    setIsRunning(true)
+  }, [])
+
+  const stopAnalysis = useCallback(() => {
+    setIsRunning(false)
+  }, [])
+
+  const updateSettings = useCallback((changes: Partial<EngineSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }))
+  }, [])
+
+  return {
+    analysis,
+    isRunning,
+    settings,
+    startAnalysis,
+    stopAnalysis,
+    updateSettings,
+  }
+}
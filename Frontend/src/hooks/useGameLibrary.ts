@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from "react"
+import {
+  createLibraryGame,
+  deleteGame,
+  getGame,
+  listGames,
+  saveGame,
+  toGameSummary,
+  updateSavedGame,
+} from "@/lib/gameLibrary"
+import type { GameMetadata, MoveTree } from "@/types/chess"
+import type { GameSource, LibraryGame, LibraryGameSummary, Scoresheet } from "@/types/library"
+
+const CURRENT_GAME_KEY = "nf3pro.currentGameId"
+
+function upsertSummary(games: LibraryGameSummary[], game: LibraryGame): LibraryGameSummary[] {
+  const others = games.filter(({ id }) => id !== game.id)
+  return [toGameSummary(game), ...others].sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export function useGameLibrary() {
+  const [games, setGames] = useState<LibraryGameSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [currentGameId, setCurrentGameIdState] = useState<string | null>(
+    () => localStorage.getItem(CURRENT_GAME_KEY)
+  )
+
+  const setCurrentGameId = useCallback((id: string | null) => {
+    setCurrentGameIdState(id)
+    if (id) {
+      localStorage.setItem(CURRENT_GAME_KEY, id)
+    } else {
+      localStorage.removeItem(CURRENT_GAME_KEY)
+    }
+  }, [])
+
+  useEffect(() => {
+    listGames()
+      .then((saved) => setGames(saved.map(toGameSummary)))
+      .catch(() => setGames([]))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  /** Saves a newly imported game and makes it the current one. */
+  const addGame = useCallback(
+    async (tree: MoveTree, metadata: GameMetadata, source: GameSource, scoresheet?: Scoresheet) => {
+      const game: LibraryGame = { ...createLibraryGame(tree, metadata, source), scoresheet }
+      // Switch first so edits made while the save is in flight land on the new game
+      setCurrentGameId(game.id)
+      await saveGame(game)
+      setGames((prev) => upsertSummary(prev, game))
+      return game
+    },
+    [setCurrentGameId]
+  )
+
+  // Without metadata only the moves and analysis are replaced
+  const updateGame = useCallback(async (id: string, tree: MoveTree, metadata?: GameMetadata) => {
+    const changes = metadata ? { tree: structuredClone(tree), metadata } : { tree: structuredClone(tree) }
+    const game = await updateSavedGame(id, changes)
+    if (game) setGames((prev) => upsertSummary(prev, game))
+  }, [])
+
+  const openGame = useCallback(
+    async (id: string) => {
+      const game = await getGame(id)
+      setCurrentGameId(game ? id : null)
+      return game
+    },
+    [setCurrentGameId]
+  )
+
+  const updateGameDetails = useCallback(async (id: string, changes: Pick<LibraryGame, "name" | "tags">) => {
+    const game = await updateSavedGame(id, changes)
+    if (game) setGames((prev) => upsertSummary(prev, game))
+  }, [])
+
+  const updateScoresheet = useCallback(async (id: string, scoresheet: Scoresheet) => {
+    const game = await updateSavedGame(id, { scoresheet })
+    if (game) setGames((prev) => upsertSummary(prev, game))
+  }, [])
+
+  const duplicateGame = useCallback(async (id: string) => {
+    const existing = await getGame(id)
+    if (!existing) return null
+
+    const game = {
+      ...createLibraryGame(existing.tree, existing.metadata, existing.source, `${existing.name} (copy)`),
+      tags: existing.tags,
+      scoresheet: existing.scoresheet,
+    }
+    await saveGame(game)
+    setGames((prev) => upsertSummary(prev, game))
+    return game
+  }, [])
+
+  const removeGame = useCallback(
+    async (id: string) => {
+      await deleteGame(id)
+      setGames((prev) => prev.filter((game) => game.id !== id))
+      if (id === currentGameId) {
+        setCurrentGameId(null)
+      }
+    },
+    [currentGameId, setCurrentGameId]
+  )
+
+  return {
+    games,
+    isLoading,
+    currentGameId,
+    addGame,
+    updateGame,
+    openGame,
+    updateGameDetails,
+    updateScoresheet,
+    duplicateGame,
+    removeGame,
+  }
+}
@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback, useRef } from "react"
+import { createStockfishEngine, type StockfishEngine } from "@/lib/stockfishEngine"
+import { evaluatePosition, type PositionEvaluation } from "@/lib/gameReview"
+import type { ReviewPosition } from "@/types/engine"
+
+export function useGameReview(
+  onPositionEvaluated: (position: ReviewPosition, evaluation: PositionEvaluation) => void,
+  onEngineError?: () => void
+) {
+  const [isReviewing, setIsReviewing] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const engineRef = useRef<StockfishEngine | null>(null)
+  const callbackRef = useRef(onPositionEvaluated)
+  callbackRef.current = onPositionEvaluated
+  const errorCallbackRef = useRef(onEngineError)
+  errorCallbackRef.current = onEngineError
+
+  const cancelReview = useCallback(() => {
+    engineRef.current?.terminate()
+    engineRef.current = null
+    setIsReviewing(false)
+  }, [])
+
+  useEffect(() => cancelReview, [cancelReview])
+
+  const startReview = useCallback(
+    async (positions: ReviewPosition[]) => {
+      cancelReview()
+
+      // A dedicated engine keeps the review from interrupting live analysis
+      const engine = createStockfishEngine(() => {
+        // The search in flight is rejected, so the loop below ends the review
+        if (engineRef.current === engine) {
+          engineRef.current = null
+          setIsReviewing(false)
+        }
+        errorCallbackRef.current?.()
+      })
+      engineRef.current = engine
+      setIsReviewing(true)
+      setProgress(0)
+
+      for (let index = 0; index < positions.length; index++) {
+        const position = positions[index]
+        let evaluation: PositionEvaluation
+        try {
+          evaluation = await evaluatePosition(engine, position.fen)
+        } catch {
+          // The engine was terminated by a cancel, a newer review or unmounting, or failed
+          return false
+        }
+
+        if (engineRef.current !== engine) {
+          return false
+        }
+
+        callbackRef.current(position, evaluation)
+        setProgress(Math.round(((index + 1) / positions.length) * 100))
+      }
+
+      engine.terminate()
+      engineRef.current = null
+      setIsReviewing(false)
+      return true
+    },
+    [cancelReview]
+  )
+
+  return {
+    isReviewing,
+    progress,
+    startReview,
+    cancelReview,
+  }
+}
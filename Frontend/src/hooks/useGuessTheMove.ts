@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback, useRef } from "react"
+import { Chess } from "chess.js"
+import type { Square } from "chess.js"
+import { createStockfishEngine, type StockfishEngine } from "@/lib/stockfishEngine"
+import { evaluatePosition } from "@/lib/gameReview"
+import { scoreToWinPercent } from "@/lib/evaluation"
+import { getMoveNumber, isWhiteMove } from "@/lib/moveTree"
+import {
+  GUESS_MAX_POINTS,
+  isGuessingSide,
+  scoreGuess,
+  type GuessResult,
+  type GuessSide,
+} from "@/lib/guessTheMove"
+import type { EngineSettings } from "@/types/engine"
+import type { MoveNode, PromotionPiece } from "@/types/chess"
+
+// How long the board waits before playing a move the user is not guessing
+const REPLY_DELAY_MS = 700
+// Guesses are weighed quickly so training keeps its pace
+const GUESS_ENGINE_SETTINGS: EngineSettings = {
+  limitMode: "depth",
+  depth: 12,
+  moveTimeMs: 1000,
+  multiPv: 1,
+}
+
+interface TrainingSession {
+  side: GuessSide
+  weighted: boolean
+  results: GuessResult[]
+  isFinished: boolean
+}
+
+export function useGuessTheMove(
+  fen: string,
+  getNextMove: () => MoveNode | null,
+  goToNode: (nodeId: string) => boolean,
+  onEngineError?: () => void
+) {
+  const [session, setSession] = useState<TrainingSession | null>(null)
+  const [isEvaluating, setIsEvaluating] = useState(false)
+  const engineRef = useRef<StockfishEngine | null>(null)
+  // Guards evaluations that finish after the session they belong to was stopped
+  const sessionIdRef = useRef(0)
+  const errorCallbackRef = useRef(onEngineError)
+  errorCallbackRef.current = onEngineError
+
+  const stopEngine = useCallback(() => {
+    engineRef.current?.terminate()
+    engineRef.current = null
+  }, [])
+
+  const stopTraining = useCallback(() => {
+    sessionIdRef.current += 1
+    stopEngine()
+    setIsEvaluating(false)
+    setSession(null)
+  }, [stopEngine])
+
+  useEffect(() => stopEngine, [stopEngine])
+
+  const startTraining = useCallback(
+    (side: GuessSide, weighted: boolean) => {
+      sessionIdRef.current += 1
+      stopEngine()
+      setIsEvaluating(false)
+      setSession({ side, weighted, results: [], isFinished: false })
+    },
+    [stopEngine]
+  )
+
+  const turn = new Chess(fen).turn()
+  const nextMove = session && !session.isFinished ? getNextMove() : null
+  const isUserTurn = !!session && !!nextMove && isGuessingSide(session.side, turn)
+
+  // Plays the moves nobody is guessing and notices the end of the game
+  useEffect(() => {
+    if (!session || session.isFinished || isEvaluating) return
+    const next = getNextMove()
+    if (!next) {
+      setSession({ ...session, isFinished: true })
+      return
+    }
+    if (isGuessingSide(session.side, turn)) return
+
+    const timer = window.setTimeout(() => goToNode(next.id), REPLY_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [session, fen, turn, isEvaluating, getNextMove, goToNode])
+
+  // Winning chances the guess gives up against the game move, from the mover's side
+  const weighGuess = useCallback(
+    async (guessFen: string, expected: MoveNode) => {
+      if (!engineRef.current) {
+        // Guesses are scored unweighted while the engine is unavailable
+        const created = createStockfishEngine(() => {
+          if (engineRef.current === created) engineRef.current = null
+          errorCallbackRef.current?.()
+        })
+        engineRef.current = created
+      }
+      const engine = engineRef.current
+
+      const guess = await evaluatePosition(engine, guessFen, GUESS_ENGINE_SETTINGS)
+      const gameScore = expected.evaluation
+        ?? (await evaluatePosition(engine, expected.fen, GUESS_ENGINE_SETTINGS)).score
+      const loss = scoreToWinPercent(gameScore) - scoreToWinPercent(guess.score)
+      return turn === "w" ? loss : -loss
+    },
+    [turn]
+  )
+
+  const handleGuess = useCallback(
+    (sourceSquare: Square, targetSquare: Square, promotion: PromotionPiece = "q") => {
+      if (!session || !nextMove || !isUserTurn || isEvaluating) return false
+
+      let guess: { san: string; after: string }
+      try {
+        guess = new Chess(fen).move({ from: sourceSquare, to: targetSquare, promotion })
+      } catch {
+        return false
+      }
+
+      const correct = guess.san === nextMove.san
+      const sessionId = sessionIdRef.current
+      const record = (winPercentLoss: number | null) => {
+        if (sessionIdRef.current !== sessionId) return
+        const result: GuessResult = {
+          moveNumber: getMoveNumber(nextMove),
+          isWhite: isWhiteMove(nextMove),
+          played: guess.san,
+          expected: nextMove.san,
+          points: scoreGuess(correct, winPercentLoss),
+          winPercentLoss: winPercentLoss ?? undefined,
+        }
+        setSession((prev) => (prev ? { ...prev, results: [...prev.results, result] } : prev))
+        setIsEvaluating(false)
+        // Either way the game move is what gets played
+        goToNode(nextMove.id)
+      }
+
+      if (correct || !session.weighted) {
+        record(null)
+        return correct
+      }
+
+      setIsEvaluating(true)
+      weighGuess(guess.after, nextMove).then(record, () => record(null))
+      return false
+    },
+    [session, nextMove, isUserTurn, isEvaluating, fen, goToNode, weighGuess]
+  )
+
+  const results = session?.results ?? []
+  return {
+    isTraining: session !== null,
+    side: session?.side ?? null,
+    isWeighted: session?.weighted ?? false,
+    isFinished: session?.isFinished ?? false,
+    isUserTurn,
+    isEvaluating,
+    results,
+    score: results.reduce((sum, result) => sum + result.points, 0),
+    maxScore: results.length * GUESS_MAX_POINTS,
+    startTraining,
+    stopTraining,
+    handleGuess,
+  }
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react"
+import { findPositionEntries } from "@/lib/gameLibrary"
+import type { LibraryGameSummary, PositionEntry } from "@/types/library"
+
+/** Library occurrences of the position in `fen`, refreshed whenever the library changes. */
+export function usePositionEntries(fen: string, games: LibraryGameSummary[]) {
+  const [entries, setEntries] = useState<PositionEntry[]>([])
+
+  // Saving a game changes the index too, so the library list is a dependency
+  useEffect(() => {
+    let cancelled = false
+    findPositionEntries(fen)
+      .then((found) => !cancelled && setEntries(found))
+      .catch(() => !cancelled && setEntries([]))
+    return () => {
+      cancelled = true
+    }
+  }, [fen, games])
+
+  return entries
+}
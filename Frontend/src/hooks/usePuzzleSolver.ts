@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { Chess } from "chess.js"
+import type { Square } from "chess.js"
+import type { Arrow } from "react-chessboard"
+import { isSolutionMove } from "@/lib/puzzles"
+import type { BoardAnnotations, LastMove, PromotionPiece } from "@/types/chess"
+import type { Puzzle } from "@/types/puzzle"
+
+const REPLY_DELAY_MS = 500
+const HINT_ARROW_COLOR = "rgba(16, 185, 129, 0.85)"
+
+export type PuzzleStatus = "solving" | "incorrect" | "solved"
+
+function toLastMove(uci: string | undefined): LastMove | null {
+  return uci ? { from: uci.slice(0, 2), to: uci.slice(2, 4) } : null
+}
+
+export function usePuzzleSolver(
+  puzzle: Puzzle | null,
+  onAttempt: (id: string, solved: boolean) => void
+) {
+  const [step, setStep] = useState(0)
+  const [status, setStatus] = useState<PuzzleStatus>("solving")
+  // 0 = none, 1 = the piece to move, 2 = the whole move
+  const [hintLevel, setHintLevel] = useState(0)
+  const [playedMoves, setPlayedMoves] = useState<string[]>([])
+  // Each puzzle counts one attempt: the first mistake, or the solve
+  const recordedRef = useRef(false)
+  const usedHelpRef = useRef(false)
+
+  const reset = useCallback(() => {
+    setStep(0)
+    setStatus("solving")
+    setHintLevel(0)
+    setPlayedMoves([])
+  }, [])
+
+  useEffect(() => {
+    reset()
+    recordedRef.current = false
+    usedHelpRef.current = false
+  }, [puzzle?.id, reset])
+
+  const record = useCallback(
+    (solved: boolean) => {
+      if (!puzzle || recordedRef.current) return
+      recordedRef.current = true
+      onAttempt(puzzle.id, solved)
+    },
+    [puzzle, onAttempt]
+  )
+
+  const fen = useMemo(() => {
+    if (!puzzle) return null
+    const chess = new Chess(puzzle.fen)
+    for (const uci of playedMoves) {
+      chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] })
+    }
+    return chess.fen()
+  }, [puzzle, playedMoves])
+
+  const playMove = useCallback(
+    (uci: string) => {
+      if (!puzzle) return
+      const nextStep = step + 1
+      setPlayedMoves((prev) => [...prev, uci])
+      setStep(nextStep)
+      setHintLevel(0)
+      if (nextStep >= puzzle.solution.length) {
+        setStatus("solved")
+        record(!usedHelpRef.current)
+      }
+    },
+    [puzzle, step, record]
+  )
+
+  // The opponent's replies come from the solution line
+  useEffect(() => {
+    if (!puzzle || status !== "solving" || step % 2 === 0 || step >= puzzle.solution.length) return
+    const timer = window.setTimeout(() => playMove(puzzle.solution[step]), REPLY_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [puzzle, status, step, playMove])
+
+  const handleMove = useCallback(
+    (sourceSquare: Square, targetSquare: Square, promotion: PromotionPiece = "q") => {
+      if (!puzzle || !fen || status !== "solving" || step % 2 === 1) return false
+
+      let uci: string
+      try {
+        const move = new Chess(fen).move({ from: sourceSquare, to: targetSquare, promotion })
+        uci = `${move.from}${move.to}${move.promotion ?? ""}`
+      } catch {
+        return false
+      }
+
+      if (isSolutionMove(fen, uci, puzzle.solution[step])) {
+        // A different mating move ends the puzzle on the spot
+        if (uci !== puzzle.solution[step]) {
+          setPlayedMoves((prev) => [...prev, uci])
+          setStep(puzzle.solution.length)
+          setStatus("solved")
+          record(!usedHelpRef.current)
+        } else {
+          playMove(uci)
+        }
+        return true
+      }
+
+      usedHelpRef.current = true
+      setStatus("incorrect")
+      record(false)
+      return false
+    },
+    [puzzle, fen, status, step, playMove, record]
+  )
+
+  const retry = useCallback(() => reset(), [reset])
+
+  const showHint = useCallback(() => {
+    usedHelpRef.current = true
+    setHintLevel((level) => Math.min(2, level + 1))
+  }, [])
+
+  const expected = puzzle && step < puzzle.solution.length ? puzzle.solution[step] : null
+
+  const hintAnnotations = useMemo((): BoardAnnotations | null => {
+    if (!expected || hintLevel === 0) return null
+    return { arrows: [], squares: [{ square: expected.slice(0, 2), color: "G" }] }
+  }, [expected, hintLevel])
+
+  const hintArrows = useMemo(
+    (): Arrow[] =>
+      expected && hintLevel >= 2
+        ? [{ startSquare: expected.slice(0, 2), endSquare: expected.slice(2, 4), color: HINT_ARROW_COLOR }]
+        : [],
+    [expected, hintLevel]
+  )
+
+  // The solver plays from the bottom of the board
+  const orientation: "white" | "black" = puzzle?.fen.split(" ")[1] === "b" ? "black" : "white"
+
+  return {
+    fen,
+    orientation,
+    lastMove: toLastMove(playedMoves[playedMoves.length - 1]),
+    status,
+    isSolverTurn: status === "solving" && step % 2 === 0,
+    hintAnnotations,
+    hintArrows,
+    canHint: status === "solving" && step % 2 === 0 && hintLevel < 2,
+    handleMove,
+    retry,
+    showHint,
+  }
+}
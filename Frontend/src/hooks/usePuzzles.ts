@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback, useRef } from "react"
+import { createStockfishEngine, type StockfishEngine } from "@/lib/stockfishEngine"
+import { deletePuzzle, listGames, listPuzzles, savePuzzle } from "@/lib/gameLibrary"
+import { createPuzzle, findPuzzleCandidates, findSolutionLine } from "@/lib/puzzles"
+import type { Puzzle, PuzzleSource } from "@/types/puzzle"
+
+export interface GenerationResult {
+  created: number
+  cancelled: boolean
+}
+
+interface GenerationJob {
+  sources: PuzzleSource[]
+  resolve: (result: GenerationResult) => void
+  reject: (error: unknown) => void
+}
+
+export function usePuzzles(onEngineError?: () => void) {
+  const [puzzles, setPuzzles] = useState<Puzzle[]>([])
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const engineRef = useRef<StockfishEngine | null>(null)
+  const puzzlesRef = useRef<Puzzle[]>([])
+  const errorCallbackRef = useRef(onEngineError)
+  errorCallbackRef.current = onEngineError
+
+  const updatePuzzles = useCallback((next: Puzzle[]) => {
+    puzzlesRef.current = next
+    setPuzzles(next)
+  }, [])
+
+  useEffect(() => {
+    listPuzzles()
+      .then(updatePuzzles)
+      .catch(() => updatePuzzles([]))
+  }, [updatePuzzles])
+
+  // Generation requests run one after another, so a second review never drops the first
+  const queueRef = useRef<GenerationJob[]>([])
+  const isRunningRef = useRef(false)
+
+  const cancelGeneration = useCallback(() => {
+    const queued = queueRef.current
+    queueRef.current = []
+    queued.forEach((job) => job.resolve({ created: 0, cancelled: true }))
+    // Terminating rejects the search in flight, which ends the running job as cancelled
+    engineRef.current?.terminate()
+    engineRef.current = null
+  }, [])
+
+  useEffect(() => cancelGeneration, [cancelGeneration])
+
+  const runJob = useCallback(
+    async ({ sources }: GenerationJob): Promise<GenerationResult> => {
+      const known = new Set(puzzlesRef.current.map(({ id }) => id))
+      const pending = sources.flatMap((source) =>
+        findPuzzleCandidates(source)
+          .filter(({ id }) => !known.has(id))
+          .map((candidate) => ({ source, candidate }))
+      )
+      setProgress(0)
+
+      let created = 0
+      for (let index = 0; index < pending.length; index++) {
+        const { source, candidate } = pending[index]
+        // A dedicated engine keeps generation from interrupting live analysis
+        if (!engineRef.current) {
+          // A failed engine ends every queued request as cancelled
+          engineRef.current = createStockfishEngine(() => {
+            cancelGeneration()
+            errorCallbackRef.current?.()
+          })
+        }
+
+        let solution: string[]
+        try {
+          solution = await findSolutionLine(engineRef.current, candidate.fen)
+        } catch {
+          return { created, cancelled: true }
+        }
+
+        if (solution.length > 0) {
+          const puzzle = createPuzzle(source, candidate, solution)
+          await savePuzzle(puzzle)
+          updatePuzzles([...puzzlesRef.current, puzzle])
+          created++
+        }
+        setProgress(Math.round(((index + 1) / pending.length) * 100))
+      }
+      return { created, cancelled: false }
+    },
+    [updatePuzzles, cancelGeneration]
+  )
+
+  const runQueue = useCallback(async () => {
+    if (isRunningRef.current) return
+    isRunningRef.current = true
+    setIsGenerating(true)
+
+    let job = queueRef.current.shift()
+    while (job) {
+      await runJob(job).then(job.resolve, job.reject)
+      job = queueRef.current.shift()
+    }
+
+    engineRef.current?.terminate()
+    engineRef.current = null
+    isRunningRef.current = false
+    setIsGenerating(false)
+  }, [runJob])
+
+  /**
+   * Turns the blunders and missed wins of reviewed games into puzzles, asking
+   * the engine for each solution line. Requests made while one is running wait
+   * their turn; each resolves with how many puzzles it added and whether it was cancelled.
+   */
+  const generatePuzzles = useCallback(
+    (sources: PuzzleSource[]) =>
+      new Promise<GenerationResult>((resolve, reject) => {
+        queueRef.current.push({ sources, resolve, reject })
+        void runQueue()
+      }),
+    [runQueue]
+  )
+
+  const scanLibrary = useCallback(async () => generatePuzzles(await listGames()), [generatePuzzles])
+
+  const recordAttempt = useCallback(
+    async (id: string, solved: boolean) => {
+      const existing = puzzlesRef.current.find((puzzle) => puzzle.id === id)
+      if (!existing) return
+
+      const puzzle: Puzzle = {
+        ...existing,
+        attempts: existing.attempts + 1,
+        solved: existing.solved || solved,
+        lastAttemptAt: Date.now(),
+      }
+      updatePuzzles(puzzlesRef.current.map((item) => (item.id === id ? puzzle : item)))
+      await savePuzzle(puzzle)
+    },
+    [updatePuzzles]
+  )
+
+  const removePuzzle = useCallback(
+    async (id: string) => {
+      await deletePuzzle(id)
+      updatePuzzles(puzzlesRef.current.filter((puzzle) => puzzle.id !== id))
+    },
+    [updatePuzzles]
+  )
+
+  return {
+    puzzles,
+    isGenerating,
+    progress,
+    generatePuzzles,
+    scanLibrary,
+    cancelGeneration,
+    recordAttempt,
+    removePuzzle,
+  }
+}
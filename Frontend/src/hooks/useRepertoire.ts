@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback, useRef } from "react"
+import { getRepertoire, saveRepertoire } from "@/lib/gameLibrary"
+import {
+  REPERTOIRE_COLORS,
+  addRepertoireLine,
+  createRepertoire,
+  recordDrillResult,
+  removeRepertoireLine,
+} from "@/lib/repertoire"
+import type { Repertoire, RepertoireColor } from "@/types/repertoire"
+
+type Repertoires = Record<RepertoireColor, Repertoire>
+
+export function useRepertoire() {
+  const repertoiresRef = useRef<Repertoires>({
+    white: createRepertoire("white"),
+    black: createRepertoire("black"),
+  })
+  const [repertoires, setRepertoires] = useState<Repertoires>(repertoiresRef.current)
+
+  useEffect(() => {
+    Promise.all(REPERTOIRE_COLORS.map(getRepertoire))
+      .then(([white, black]) => {
+        repertoiresRef.current = {
+          white: white ?? repertoiresRef.current.white,
+          black: black ?? repertoiresRef.current.black,
+        }
+        setRepertoires(repertoiresRef.current)
+      })
+      .catch(() => {})
+  }, [])
+
+  // Changes build on the ref so results recorded in quick succession never overwrite each other
+  const updateRepertoire = useCallback(
+    async (color: RepertoireColor, change: (repertoire: Repertoire) => Repertoire | null) => {
+      const next = change(repertoiresRef.current[color])
+      if (!next) return false
+
+      repertoiresRef.current = { ...repertoiresRef.current, [color]: next }
+      setRepertoires(repertoiresRef.current)
+      await saveRepertoire(next)
+      return true
+    },
+    []
+  )
+
+  /** Adds a line; false when it does not start from the standard position. */
+  const addLine = useCallback(
+    (color: RepertoireColor, startFen: string, sans: string[]) =>
+      updateRepertoire(color, (repertoire) => addRepertoireLine(repertoire, startFen, sans)),
+    [updateRepertoire]
+  )
+
+  const removeLine = useCallback(
+    (color: RepertoireColor, sans: string[]) =>
+      updateRepertoire(color, (repertoire) => removeRepertoireLine(repertoire, sans)),
+    [updateRepertoire]
+  )
+
+  const recordResult = useCallback(
+    (color: RepertoireColor, leafId: string, correct: boolean) =>
+      updateRepertoire(color, (repertoire) =>
+        repertoire.tree.nodes[leafId] ? recordDrillResult(repertoire, leafId, correct) : null
+      ),
+    [updateRepertoire]
+  )
+
+  return {
+    repertoires,
+    addLine,
+    removeLine,
+    recordResult,
+  }
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { Chess, DEFAULT_POSITION } from "chess.js"
+import type { Square } from "chess.js"
+import type { Arrow } from "react-chessboard"
+import { findRepertoireNode, getNextDrillLine } from "@/lib/repertoire"
+import type { PromotionPiece } from "@/types/chess"
+import type { Repertoire, RepertoireColor, RepertoireLine } from "@/types/repertoire"
+
+// How long the board waits before playing the opponent's reply
+const OPPONENT_DELAY_MS = 500
+const HINT_ARROW_COLOR = "rgba(16, 185, 129, 0.85)"
+
+export type DrillFeedback =
+  | { type: "mistake"; played: string; expected: string }
+  // A move from the repertoire, just not the one this line continues with
+  | { type: "alternative"; played: string; expected: string }
+  | { type: "complete"; correct: boolean }
+
+interface DrillState {
+  color: RepertoireColor
+  line: RepertoireLine
+  // Moves of the line already on the board
+  step: number
+  hadMistake: boolean
+  feedback: DrillFeedback | null
+}
+
+export function useRepertoireDrill(
+  repertoires: Record<RepertoireColor, Repertoire>,
+  onLineFinished: (color: RepertoireColor, leafId: string, correct: boolean) => void
+) {
+  const [drill, setDrill] = useState<DrillState | null>(null)
+
+  const startDrill = useCallback(
+    (color: RepertoireColor) => {
+      const line = getNextDrillLine(repertoires[color])
+      setDrill(line ? { color, line, step: 0, hadMistake: false, feedback: null } : null)
+      return line !== null
+    },
+    [repertoires]
+  )
+
+  const stopDrill = useCallback(() => setDrill(null), [])
+
+  const advance = useCallback(
+    (current: DrillState) => {
+      const step = current.step + 1
+      const isComplete = step === current.line.moves.length
+      if (isComplete) {
+        onLineFinished(current.color, current.line.leafId, !current.hadMistake)
+      }
+      setDrill({
+        ...current,
+        step,
+        feedback: isComplete ? { type: "complete", correct: !current.hadMistake } : null,
+      })
+    },
+    [onLineFinished]
+  )
+
+  // Lines always start from the standard position
+  const fen = (drill && drill.line.moves[drill.step - 1]?.fen) || DEFAULT_POSITION
+  const isComplete = !!drill && drill.step === drill.line.moves.length
+  const isUserTurn = !!drill && !isComplete && new Chess(fen).turn() === drill.color[0]
+
+  // The board plays the opponent's side of the line
+  useEffect(() => {
+    if (!drill || isComplete || isUserTurn) return
+    const timer = window.setTimeout(() => advance(drill), OPPONENT_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [drill, isComplete, isUserTurn, advance])
+
+  const handleMove = useCallback(
+    (sourceSquare: Square, targetSquare: Square, promotion: PromotionPiece = "q") => {
+      if (!drill || !isUserTurn) return false
+
+      let played: string
+      try {
+        played = new Chess(fen).move({ from: sourceSquare, to: targetSquare, promotion }).san
+      } catch {
+        return false
+      }
+
+      const expected = drill.line.moves[drill.step]
+      if (played === expected.san) {
+        advance(drill)
+        return true
+      }
+
+      const path = drill.line.moves.slice(0, drill.step).map(({ san }) => san)
+      const isRepertoireMove = findRepertoireNode(repertoires[drill.color].tree, [...path, played]) !== null
+      setDrill({
+        ...drill,
+        hadMistake: drill.hadMistake || !isRepertoireMove,
+        feedback: { type: isRepertoireMove ? "alternative" : "mistake", played, expected: expected.san },
+      })
+      return false
+    },
+    [drill, fen, isUserTurn, advance, repertoires]
+  )
+
+  // After a wrong move the expected one is shown on the board
+  const hintArrows = useMemo((): Arrow[] => {
+    if (!drill || drill.feedback?.type !== "mistake") return []
+    const lastMove = drill.line.moves[drill.step]?.lastMove
+    return lastMove ? [{ startSquare: lastMove.from, endSquare: lastMove.to, color: HINT_ARROW_COLOR }] : []
+  }, [drill])
+
+  return {
+    isDrilling: drill !== null,
+    drillColor: drill?.color ?? null,
+    drillFen: fen,
+    drillLastMove: drill ? drill.line.moves[drill.step - 1]?.lastMove ?? null : null,
+    drillStep: drill?.step ?? 0,
+    drillLength: drill?.line.moves.length ?? 0,
+    feedback: drill?.feedback ?? null,
+    isUserTurn,
+    hintArrows,
+    startDrill,
+    stopDrill,
+    handleMove,
+  }
+}
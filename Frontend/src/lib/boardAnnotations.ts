@@ -0,0 +1,103 @@
+import type { Arrow } from "react-chessboard"
+import type {
+  AnnotationColor,
+  ArrowAnnotation,
+  BoardAnnotations,
+  SquareAnnotation,
+} from "@/types/chess"
+
+export const ANNOTATION_COLORS: Record<AnnotationColor, string> = {
+  G: "rgba(21, 120, 27, 0.8)",
+  R: "rgba(136, 32, 32, 0.8)",
+  Y: "rgba(230, 143, 0, 0.8)",
+  B: "rgba(0, 48, 136, 0.8)",
+}
+
+const COMMAND_PATTERN = /\[%(cal|csl)\s+([^\]]*)\]/g
+const ARROW_PATTERN = /^([GRYB])([a-h][1-8])([a-h][1-8])$/
+const SQUARE_PATTERN = /^([GRYB])([a-h][1-8])$/
+
+/** Colour for a right-click drawing, following lichess: Shift red, Alt blue, both yellow. */
+export function getAnnotationColor(modifiers: { shiftKey: boolean; altKey: boolean; ctrlKey: boolean }): AnnotationColor {
+  const alt = modifiers.altKey || modifiers.ctrlKey
+  if (modifiers.shiftKey && alt) return "Y"
+  if (modifiers.shiftKey) return "R"
+  if (alt) return "B"
+  return "G"
+}
+
+export function hasAnnotations(annotations?: BoardAnnotations | null): annotations is BoardAnnotations {
+  return !!annotations && (annotations.arrows.length > 0 || annotations.squares.length > 0)
+}
+
+/**
+ * Splits the `[%cal]` and `[%csl]` commands out of a PGN comment. Returns the
+ * remaining comment text alongside whatever drawings the commands described.
+ */
+export function extractAnnotations(comment: string): { text: string; annotations: BoardAnnotations | null } {
+  const annotations: BoardAnnotations = { arrows: [], squares: [] }
+
+  const text = comment
+    .replace(COMMAND_PATTERN, (_, command: string, args: string) => {
+      for (const item of args.split(",").map((part) => part.trim())) {
+        if (command === "cal") {
+          const match = item.match(ARROW_PATTERN)
+          if (match) annotations.arrows.push({ color: match[1] as AnnotationColor, from: match[2], to: match[3] })
+        } else {
+          const match = item.match(SQUARE_PATTERN)
+          if (match) annotations.squares.push({ color: match[1] as AnnotationColor, square: match[2] })
+        }
+      }
+      return ""
+    })
+    .replace(/\s+/g, " ")
+    .trim()
+
+  return { text, annotations: hasAnnotations(annotations) ? annotations : null }
+}
+
+/** The `[%csl ...] [%cal ...]` commands for a position, or "" when nothing is drawn. */
+export function formatAnnotations(annotations?: BoardAnnotations | null): string {
+  if (!hasAnnotations(annotations)) return ""
+
+  const commands: string[] = []
+  if (annotations.squares.length > 0) {
+    commands.push(`[%csl ${annotations.squares.map(({ color, square }) => `${color}${square}`).join(",")}]`)
+  }
+  if (annotations.arrows.length > 0) {
+    commands.push(`[%cal ${annotations.arrows.map(({ color, from, to }) => `${color}${from}${to}`).join(",")}]`)
+  }
+  return commands.join(" ")
+}
+
+/** Adds an arrow, recolours it, or removes it when drawn again in the same colour. */
+export function toggleArrow(annotations: BoardAnnotations | undefined, arrow: ArrowAnnotation): BoardAnnotations {
+  const current = annotations ?? { arrows: [], squares: [] }
+  const existing = current.arrows.find(({ from, to }) => from === arrow.from && to === arrow.to)
+  const others = current.arrows.filter((item) => item !== existing)
+
+  return {
+    ...current,
+    arrows: existing?.color === arrow.color ? others : [...others, arrow],
+  }
+}
+
+/** Adds a square highlight, recolours it, or removes it when drawn again in the same colour. */
+export function toggleSquare(annotations: BoardAnnotations | undefined, highlight: SquareAnnotation): BoardAnnotations {
+  const current = annotations ?? { arrows: [], squares: [] }
+  const existing = current.squares.find(({ square }) => square === highlight.square)
+  const others = current.squares.filter((item) => item !== existing)
+
+  return {
+    ...current,
+    squares: existing?.color === highlight.color ? others : [...others, highlight],
+  }
+}
+
+export function annotationsToArrows(annotations?: BoardAnnotations | null): Arrow[] {
+  return (annotations?.arrows ?? []).map(({ from, to, color }) => ({
+    startSquare: from,
+    endSquare: to,
+    color: ANNOTATION_COLORS[color],
+  }))
+}
@@ -1,20 +1,24 @@
 import { Chess } from "chess.js"
 import type { MoveHistoryItem, PlayedMove } from "@/types/chess"
 
-export function getMoveHistory(playedMoves: PlayedMove[]): MoveHistoryItem[] {
+export function getMoveHistory(playedMoves: PlayedMove[], startPly: number = 0): MoveHistoryItem[] {
   const moves: MoveHistoryItem[] = []
+  // Games set up with Black to move leave the first row's White slot empty
+  const offset = startPly % 2
+  const slots: Array<PlayedMove | null> = [...Array(offset).fill(null), ...playedMoves]
+  const firstMoveNumber = Math.floor(startPly / 2) + 1
 
-  for (let i = 0; i < playedMoves.length; i += 2) {
+  for (let i = 0; i < slots.length; i += 2) {
     moves.push({
-      moveNumber: Math.floor(i / 2) + 1,
-      white: playedMoves[i] ? { ...playedMoves[i] } : null,
-      black: playedMoves[i + 1] ? { ...playedMoves[i + 1] } : null,
+      moveNumber: firstMoveNumber + i / 2,
+      white: slots[i] ? { ...slots[i]! } : null,
+      black: slots[i + 1] ? { ...slots[i + 1]! } : null,
     })
   }
 
   return moves
 }
 
-export function createNewGame(): Chess {
-  return new Chess()
+export function createNewGame(fen?: string): Chess {
+  return fen ? new Chess(fen) : new Chess()
 }
@@ -0,0 +1,101 @@
+import type { Arrow } from "react-chessboard"
+import type { EngineLine, EngineScore } from "@/types/engine"
+
+// Stands in for positions where the game already ended in checkmate
+export const CHECKMATE_CP = 100000
+
+export function formatScore(score: EngineScore): string {
+  if (score.type === "cp" && Math.abs(score.value) >= CHECKMATE_CP) {
+    return score.value > 0 ? "1-0" : "0-1"
+  }
+
+  if (score.type === "mate") {
+    return score.value >= 0 ? `#${score.value}` : `-#${Math.abs(score.value)}`
+  }
+
+  const pawns = score.value / 100
+  return `${pawns > 0 ? "+" : ""}${pawns.toFixed(2)}`
+}
+
+/** Formats a SAN line with move numbers, starting from the position in `fen`. */
+export function formatPrincipalVariation(fen: string, sans: string[]): string {
+  const [, turn = "w", , , , fullMove = "1"] = fen.split(/\s+/)
+  let moveNumber = parseInt(fullMove, 10) || 1
+  let isWhite = turn === "w"
+
+  return sans
+    .map((san, index) => {
+      let text = san
+      if (isWhite) {
+        text = `${moveNumber}. ${san}`
+      } else if (index === 0) {
+        text = `${moveNumber}... ${san}`
+      }
+
+      if (!isWhite) moveNumber++
+      isWhite = !isWhite
+      return text
+    })
+    .join(" ")
+}
+
+/**
+ * Winning chances for White in percent (0-100), using the logistic curve
+ * lichess applies to centipawn scores. Mates count as fully won or lost.
+ */
+export function scoreToWinPercent(score: EngineScore): number {
+  if (score.type === "mate") {
+    return score.value > 0 ? 100 : 0
+  }
+
+  const winningChances = 2 / (1 + Math.exp(-0.00368208 * score.value)) - 1
+  return 50 + 50 * winningChances
+}
+
+/**
+ * Arrows for the engine's candidate moves. The best move is drawn in solid
+ * green; weaker candidates fade towards red by how much winning chance they give up.
+ */
+export function buildCandidateArrows(lines: EngineLine[]): Arrow[] {
+  const bestLine = lines[0]
+  if (!bestLine) return []
+
+  const bestPercent = scoreToWinPercent(bestLine.score)
+
+  return lines
+    .filter((line) => line.pvUci.length > 0)
+    .map((line, index) => {
+      const loss = Math.abs(bestPercent - scoreToWinPercent(line.score))
+      const [red, green, blue] = index === 0 || loss < 2
+        ? [16, 185, 129]
+        : loss < 8
+          ? [59, 130, 246]
+          : loss < 20
+            ? [245, 158, 11]
+            : [239, 68, 68]
+      const opacity = Math.max(0.35, 0.9 - index * 0.15)
+
+      return {
+        startSquare: line.pvUci[0].slice(0, 2),
+        endSquare: line.pvUci[0].slice(2, 4),
+        color: `rgba(${red}, ${green}, ${blue}, ${opacity})`,
+      }
+    })
+}
+
+/** Splits a `[%eval 0.35]` / `[%eval #-3]` command out of a PGN comment. */
+export function extractEvaluation(comment: string): { text: string; evaluation: EngineScore | null } {
+  let evaluation: EngineScore | null = null
+
+  const text = comment
+    .replace(/\[%eval\s+(#)?([+-]?\d+(?:\.\d+)?)[^\]]*\]/g, (_, mate: string | undefined, value: string) => {
+      evaluation = mate
+        ? { type: "mate", value: parseInt(value, 10) }
+        : { type: "cp", value: Math.round(parseFloat(value) * 100) }
+      return ""
+    })
+    .replace(/\s+/g, " ")
+    .trim()
+
+  return { text, evaluation }
+}
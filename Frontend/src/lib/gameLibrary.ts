@@ -0,0 +1,248 @@
+import { getLineEnd, getNodePath } from "@/lib/moveTree"
+import { identifyGameOpening } from "@/lib/openings"
+import { zobristHash } from "@/lib/zobrist"
+import type { GameMetadata, MoveTree } from "@/types/chess"
+import type { GameSource, LibraryGame, LibraryGameSummary, PositionEntry } from "@/types/library"
+import type { Repertoire, RepertoireColor } from "@/types/repertoire"
+import type { Puzzle } from "@/types/puzzle"
+
+const DATABASE_NAME = "nf3pro"
+const DATABASE_VERSION = 4
+const GAMES_STORE = "games"
+// Main-line positions of every saved game, keyed by [gameId, nodeId] and looked up by hash
+const POSITIONS_STORE = "positions"
+// One repertoire per color, keyed by "white" or "black"
+const REPERTOIRES_STORE = "repertoires"
+const PUZZLES_STORE = "puzzles"
+
+export const GAME_SOURCE_LABELS: Record<GameSource, string> = {
+  pgn: "PGN",
+  csv: "CSV",
+  image: "Scoresheet",
+  fen: "Position",
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+
+      request.onupgradeneeded = (event) => {
+        const database = request.result
+        if (event.oldVersion < 1) {
+          const store = database.createObjectStore(GAMES_STORE, { keyPath: "id" })
+          store.createIndex("updatedAt", "updatedAt")
+        }
+        if (event.oldVersion < 2) {
+          const positions = database.createObjectStore(POSITIONS_STORE, { keyPath: ["gameId", "nodeId"] })
+          positions.createIndex("hash", "hash")
+          indexExistingGames(request.transaction!)
+        }
+        if (event.oldVersion < 3) {
+          database.createObjectStore(REPERTOIRES_STORE, { keyPath: "color" })
+        }
+        if (event.oldVersion < 4) {
+          database.createObjectStore(PUZZLES_STORE, { keyPath: "id" })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/** Every position on the game's main line, including the starting one. */
+export function buildPositionEntries(gameId: string, tree: MoveTree): PositionEntry[] {
+  const line = [tree.nodes[tree.rootId], ...getNodePath(tree, getLineEnd(tree, tree.rootId))]
+  return line.map((node, ply) => {
+    const [, turn, , , , moveNumber] = node.fen.split(" ")
+    return {
+      gameId,
+      nodeId: node.id,
+      hash: zobristHash(node.fen),
+      ply,
+      moveNumber: parseInt(moveNumber, 10) || 1,
+      turn: turn === "b" ? "b" : "w",
+      nextSan: line[ply + 1]?.san,
+    }
+  })
+}
+
+// All of a game's entries: array keys sort after strings, so [id, []] is above every [id, nodeId]
+function gamePositionsRange(gameId: string): IDBKeyRange {
+  return IDBKeyRange.bound([gameId], [gameId, []])
+}
+
+function writePositionEntries(transaction: IDBTransaction, gameId: string, tree: MoveTree | null): void {
+  const positions = transaction.objectStore(POSITIONS_STORE)
+  positions.delete(gamePositionsRange(gameId))
+  if (tree) {
+    buildPositionEntries(gameId, tree).forEach((entry) => positions.put(entry))
+  }
+}
+
+// Games saved before the position index existed are indexed while upgrading
+function indexExistingGames(transaction: IDBTransaction): void {
+  const cursorRequest = transaction.objectStore(GAMES_STORE).openCursor()
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result
+    if (!cursor) return
+    const game = cursor.value as LibraryGame
+    writePositionEntries(transaction, game.id, game.tree)
+    cursor.continue()
+  }
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = GAMES_STORE
+): Promise<T> {
+  const database = await openDatabase()
+  const transaction = database.transaction(storeName, mode)
+  return requestToPromise(run(transaction.objectStore(storeName)))
+}
+
+/** A readable default name: "White vs Black", the event, or the kind of import. */
+export function getDefaultGameName(metadata: GameMetadata, source: GameSource): string {
+  if (metadata.white || metadata.black) {
+    return `${metadata.white || "?"} vs ${metadata.black || "?"}`
+  }
+  if (metadata.event) return metadata.event
+  return source === "fen" ? "Custom position" : "Untitled game"
+}
+
+export function createLibraryGame(
+  tree: MoveTree,
+  metadata: GameMetadata,
+  source: GameSource,
+  name: string = getDefaultGameName(metadata, source)
+): LibraryGame {
+  const now = Date.now()
+  return {
+    id: crypto.randomUUID(),
+    name,
+    source,
+    metadata,
+    tree: structuredClone(tree),
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+export function toGameSummary({ tree, ...game }: LibraryGame): LibraryGameSummary {
+  return {
+    ...game,
+    moveCount: getNodePath(tree, getLineEnd(tree, tree.rootId)).length,
+    identifiedOpening: identifyGameOpening(tree),
+  }
+}
+
+/** Every saved game, most recently changed first. */
+export async function listGames(): Promise<LibraryGame[]> {
+  const games = await withStore("readonly", (store) => store.getAll() as IDBRequest<LibraryGame[]>)
+  return games.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function getGame(id: string): Promise<LibraryGame | null> {
+  const game = await withStore("readonly", (store) => store.get(id) as IDBRequest<LibraryGame | undefined>)
+  return game ?? null
+}
+
+/** Stores the game and refreshes its entries in the position index. */
+export async function saveGame(game: LibraryGame): Promise<void> {
+  const database = await openDatabase()
+  const transaction = database.transaction([GAMES_STORE, POSITIONS_STORE], "readwrite")
+  transaction.objectStore(GAMES_STORE).put(game)
+  writePositionEntries(transaction, game.id, game.tree)
+  await transactionToPromise(transaction)
+}
+
+/**
+ * Merges `changes` into a stored game, reading and writing in one transaction so
+ * concurrent updates of different fields never overwrite each other. Resolves
+ * with the updated game, or null when it no longer exists.
+ */
+export async function updateSavedGame(
+  id: string,
+  changes: Partial<Omit<LibraryGame, "id" | "createdAt">>
+): Promise<LibraryGame | null> {
+  const database = await openDatabase()
+  const transaction = database.transaction([GAMES_STORE, POSITIONS_STORE], "readwrite")
+  const store = transaction.objectStore(GAMES_STORE)
+  let updated: LibraryGame | null = null
+
+  const request = store.get(id) as IDBRequest<LibraryGame | undefined>
+  request.onsuccess = () => {
+    if (!request.result) return
+    const game: LibraryGame = { ...request.result, ...changes, updatedAt: Date.now() }
+    store.put(game)
+    if (changes.tree) writePositionEntries(transaction, id, game.tree)
+    updated = game
+  }
+  await transactionToPromise(transaction)
+  return updated
+}
+
+export async function deleteGame(id: string): Promise<void> {
+  const database = await openDatabase()
+  const transaction = database.transaction([GAMES_STORE, POSITIONS_STORE], "readwrite")
+  transaction.objectStore(GAMES_STORE).delete(id)
+  writePositionEntries(transaction, id, null)
+  await transactionToPromise(transaction)
+}
+
+/** Every saved main-line occurrence of the position in `fen`, in any game. */
+export async function findPositionEntries(fen: string): Promise<PositionEntry[]> {
+  const database = await openDatabase()
+  const index = database.transaction(POSITIONS_STORE, "readonly").objectStore(POSITIONS_STORE).index("hash")
+  return requestToPromise(index.getAll(zobristHash(fen)) as IDBRequest<PositionEntry[]>)
+}
+
+export async function getRepertoire(color: RepertoireColor): Promise<Repertoire | null> {
+  const repertoire = await withStore(
+    "readonly",
+    (store) => store.get(color) as IDBRequest<Repertoire | undefined>,
+    REPERTOIRES_STORE
+  )
+  return repertoire ?? null
+}
+
+export async function saveRepertoire(repertoire: Repertoire): Promise<void> {
+  await withStore("readwrite", (store) => store.put(repertoire), REPERTOIRES_STORE)
+}
+
+/** Every stored puzzle, oldest first. */
+export async function listPuzzles(): Promise<Puzzle[]> {
+  const puzzles = await withStore("readonly", (store) => store.getAll() as IDBRequest<Puzzle[]>, PUZZLES_STORE)
+  return puzzles.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+export async function savePuzzle(puzzle: Puzzle): Promise<void> {
+  await withStore("readwrite", (store) => store.put(puzzle), PUZZLES_STORE)
+}
+
+export async function deletePuzzle(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id), PUZZLES_STORE)
+}
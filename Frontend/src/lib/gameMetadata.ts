@@ -0,0 +1,87 @@
+import type { GameMetadata, ParsedGame } from "@/types/chess"
+
+type MetadataField = Exclude<keyof GameMetadata, "extraTags">
+
+// Order follows the PGN Seven Tag Roster, then the optional tags we surface
+export const METADATA_TAGS: Array<{ field: MetadataField; tag: string; label: string }> = [
+  { field: "event", tag: "Event", label: "Event" },
+  { field: "site", tag: "Site", label: "Site" },
+  { field: "date", tag: "Date", label: "Date" },
+  { field: "round", tag: "Round", label: "Round" },
+  { field: "white", tag: "White", label: "White" },
+  { field: "black", tag: "Black", label: "Black" },
+  { field: "result", tag: "Result", label: "Result" },
+  { field: "whiteElo", tag: "WhiteElo", label: "White Elo" },
+  { field: "blackElo", tag: "BlackElo", label: "Black Elo" },
+  { field: "timeControl", tag: "TimeControl", label: "Time Control" },
+  { field: "eco", tag: "ECO", label: "ECO" },
+  { field: "opening", tag: "Opening", label: "Opening" },
+]
+
+const PLACEHOLDER_VALUES = new Set(["", "?", "????.??.??", "-"])
+
+export function metadataFromHeaders(headers: Record<string, string>): GameMetadata {
+  const metadata: GameMetadata = {}
+  const knownTags = new Set(METADATA_TAGS.map(({ tag }) => tag))
+
+  for (const { field, tag } of METADATA_TAGS) {
+    const value = headers[tag]?.trim()
+    if (value && !PLACEHOLDER_VALUES.has(value)) {
+      metadata[field] = value
+    }
+  }
+
+  const extraTags = Object.fromEntries(
+    Object.entries(headers).filter(([tag]) => !knownTags.has(tag))
+  )
+  if (Object.keys(extraTags).length > 0) {
+    metadata.extraTags = extraTags
+  }
+
+  return metadata
+}
+
+/** A parsed game's tags, falling back to the result its movetext ends with when there is no Result tag. */
+export function metadataFromParsedGame(game: ParsedGame): GameMetadata {
+  return {
+    result: game.result !== "*" ? game.result : undefined,
+    ...metadataFromHeaders(game.headers),
+  }
+}
+
+export function metadataToHeaders(metadata: GameMetadata): Record<string, string> {
+  const headers: Record<string, string> = {}
+
+  for (const { field, tag } of METADATA_TAGS) {
+    const value = metadata[field]
+    if (value) {
+      headers[tag] = value
+    }
+  }
+
+  return { ...headers, ...metadata.extraTags }
+}
+
+export function hasMetadata(metadata: GameMetadata): boolean {
+  return METADATA_TAGS.some(({ field }) => Boolean(metadata[field]))
+}
+
+function normalizePlayerName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()
+}
+
+/**
+ * The side `playerName` played in this game, or null when neither player
+ * matches. Names are compared loosely so "Carlsen, Magnus" matches "magnus carlsen".
+ */
+export function getPlayerSide(metadata: GameMetadata, playerName: string): "white" | "black" | null {
+  const wanted = normalizePlayerName(playerName).split(" ").filter(Boolean).sort().join(" ")
+  if (!wanted) return null
+
+  const matches = (name?: string) =>
+    !!name && normalizePlayerName(name).split(" ").filter(Boolean).sort().join(" ") === wanted
+
+  if (matches(metadata.white)) return "white"
+  if (matches(metadata.black)) return "black"
+  return null
+}
@@ -0,0 +1,150 @@
+import { Chess } from "chess.js"
+import { formatScore, scoreToWinPercent } from "@/lib/evaluation"
+import { getLineEnd, getMoveNumber, getNodePath, getRootNode, isWhiteMove } from "@/lib/moveTree"
+import type { MoveClassification, MoveNode, MoveTree } from "@/types/chess"
+import type { EngineScore } from "@/types/engine"
+
+export type GamePhase = "opening" | "middlegame" | "endgame"
+
+export type ErrorCounts = Record<"inaccuracy" | "mistake" | "blunder", number>
+
+export interface PlayerReport {
+  accuracy: number
+  averageCentipawnLoss: number
+  moveCount: number
+  classifications: Record<MoveClassification, number>
+  errorsByPhase: Record<GamePhase, ErrorCounts>
+}
+
+export interface TurningPoint {
+  nodeId: string
+  label: string
+  classification: MoveClassification
+  before: string
+  after: string
+  winPercentLoss: number
+}
+
+export interface GameReport {
+  white: PlayerReport
+  black: PlayerReport
+  turningPoints: TurningPoint[]
+  evaluatedMoves: number
+  totalMoves: number
+}
+
+export const GAME_PHASES: GamePhase[] = ["opening", "middlegame", "endgame"]
+
+// Mates and long-decided positions are capped so one move cannot swamp the average
+const MAX_CENTIPAWNS = 1000
+const OPENING_LAST_MOVE = 12
+const ENDGAME_MAX_PIECES = 6
+const MAX_TURNING_POINTS = 5
+
+function emptyPlayerReport(): PlayerReport {
+  const emptyCounts = (): ErrorCounts => ({ inaccuracy: 0, mistake: 0, blunder: 0 })
+  return {
+    accuracy: 0,
+    averageCentipawnLoss: 0,
+    moveCount: 0,
+    classifications: { best: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0, missedWin: 0 },
+    errorsByPhase: { opening: emptyCounts(), middlegame: emptyCounts(), endgame: emptyCounts() },
+  }
+}
+
+function toCentipawns(score: EngineScore): number {
+  const value = score.type === "mate" ? Math.sign(score.value || 1) * MAX_CENTIPAWNS : score.value
+  return Math.max(-MAX_CENTIPAWNS, Math.min(MAX_CENTIPAWNS, value))
+}
+
+/** Phase of the position a move was played from, by move number and remaining pieces. */
+export function getGamePhase(fen: string): GamePhase {
+  const chess = new Chess(fen)
+  const pieces = chess
+    .board()
+    .flat()
+    .filter((square) => square && square.type !== "p" && square.type !== "k").length
+
+  if (pieces <= ENDGAME_MAX_PIECES) return "endgame"
+  return chess.moveNumber() <= OPENING_LAST_MOVE ? "opening" : "middlegame"
+}
+
+/** Per-move accuracy from the winning chances it gave up, on the lichess curve. */
+export function moveAccuracy(winPercentLoss: number): number {
+  const accuracy = 103.1668 * Math.exp(-0.04354 * Math.max(0, winPercentLoss)) - 3.1669
+  return Math.max(0, Math.min(100, accuracy))
+}
+
+function moveLabel(node: MoveNode): string {
+  return `${getMoveNumber(node)}${isWhiteMove(node) ? "." : "..."} ${node.san}`
+}
+
+/**
+ * Summarises the main line of a reviewed game for each side. Moves whose
+ * positions have not been evaluated yet are left out, so a partially reviewed
+ * game still produces a report over what is known.
+ */
+export function buildGameReport(tree: MoveTree): GameReport {
+  const mainLine = getNodePath(tree, getLineEnd(tree, tree.rootId))
+  const positions = [getRootNode(tree), ...mainLine]
+  const players = { white: emptyPlayerReport(), black: emptyPlayerReport() }
+  const totals = {
+    white: { accuracy: 0, centipawnLoss: 0 },
+    black: { accuracy: 0, centipawnLoss: 0 },
+  }
+  const swings: TurningPoint[] = []
+
+  for (let index = 1; index < positions.length; index++) {
+    const parent = positions[index - 1]
+    const node = positions[index]
+    if (!parent.evaluation || !node.evaluation || !node.classification) continue
+
+    const side = isWhiteMove(node) ? "white" : "black"
+    const toMover = (value: number) => (side === "white" ? value : -value)
+    const winPercentLoss = toMover(scoreToWinPercent(parent.evaluation) - scoreToWinPercent(node.evaluation))
+    const centipawnLoss = Math.max(0, toMover(toCentipawns(parent.evaluation) - toCentipawns(node.evaluation)))
+
+    const player = players[side]
+    player.moveCount++
+    player.classifications[node.classification]++
+    totals[side].accuracy += moveAccuracy(winPercentLoss)
+    totals[side].centipawnLoss += centipawnLoss
+
+    const errorKind = node.classification === "missedWin" ? "mistake" : node.classification
+    if (errorKind === "inaccuracy" || errorKind === "mistake" || errorKind === "blunder") {
+      player.errorsByPhase[getGamePhase(parent.fen)][errorKind]++
+    }
+
+    if (["mistake", "blunder", "missedWin"].includes(node.classification)) {
+      swings.push({
+        nodeId: node.id,
+        label: moveLabel(node),
+        classification: node.classification,
+        before: formatScore(parent.evaluation),
+        after: formatScore(node.evaluation),
+        winPercentLoss,
+      })
+    }
+  }
+
+  for (const side of ["white", "black"] as const) {
+    const player = players[side]
+    if (player.moveCount > 0) {
+      player.accuracy = totals[side].accuracy / player.moveCount
+      player.averageCentipawnLoss = totals[side].centipawnLoss / player.moveCount
+    }
+  }
+
+  // The biggest swings, shown in the order they happened
+  const turningPoints = [...swings]
+    .sort((a, b) => b.winPercentLoss - a.winPercentLoss)
+    .slice(0, MAX_TURNING_POINTS)
+    .sort((a, b) => swings.indexOf(a) - swings.indexOf(b))
+
+  return {
+    ...players,
+    turningPoints,
+    evaluatedMoves: players.white.moveCount + players.black.moveCount,
+    totalMoves: mainLine.length,
+  }
+}
@@ -0,0 +1,105 @@
+import { Chess } from "chess.js"
+import { CHECKMATE_CP, scoreToWinPercent } from "@/lib/evaluation"
+import { uciToSan, type StockfishEngine } from "@/lib/stockfishEngine"
+import type { MoveClassification, MoveTree } from "@/types/chess"
+import type { EngineAnalysis, EngineScore, EngineSettings } from "@/types/engine"
+
+export const REVIEW_SETTINGS: EngineSettings = {
+  limitMode: "depth",
+  depth: 14,
+  moveTimeMs: 1000,
+  multiPv: 1,
+}
+
+export interface PositionEvaluation {
+  score: EngineScore
+  bestMoveUci?: string
+}
+
+/** Evaluates a single position, resolving once the engine reports `bestmove`. */
+export function evaluatePosition(
+  engine: StockfishEngine,
+  fen: string,
+  settings: EngineSettings = REVIEW_SETTINGS
+): Promise<PositionEvaluation> {
+  const chess = new Chess(fen)
+
+  // Finished games need no search
+  if (chess.isCheckmate()) {
+    return Promise.resolve({
+      score: { type: "cp", value: chess.turn() === "w" ? -CHECKMATE_CP : CHECKMATE_CP },
+    })
+  }
+  if (chess.isGameOver()) {
+    return Promise.resolve({ score: { type: "cp", value: 0 } })
+  }
+
+  // Rejects when the search is cancelled, so callers awaiting it are never left hanging
+  return new Promise((resolve, reject) => {
+    engine.analyse(
+      fen,
+      settings,
+      (analysis: EngineAnalysis) => {
+        if (!analysis.isComplete) return
+        resolve({
+          score: analysis.lines[0]?.score ?? { type: "cp", value: 0 },
+          bestMoveUci: analysis.bestMove ?? undefined,
+        })
+      },
+      () => reject(new Error("Engine search cancelled"))
+    )
+  })
+}
+
+/**
+ * Classifies a move by the winning chances (0-100, from the mover's side) it
+ * gives up compared with the position before it was played.
+ */
+export function classifyMove(
+  before: EngineScore,
+  after: EngineScore,
+  isWhiteMove: boolean,
+  isEngineBest: boolean
+): MoveClassification {
+  const toMover = (percent: number) => (isWhiteMove ? percent : 100 - percent)
+  const winBefore = toMover(scoreToWinPercent(before))
+  const winAfter = toMover(scoreToWinPercent(after))
+  const loss = winBefore - winAfter
+
+  if (isEngineBest) return "best"
+  if (winBefore >= 70 && winAfter < 60 && winAfter >= 40) return "missedWin"
+  if (loss >= 20) return "blunder"
+  if (loss >= 10) return "mistake"
+  if (loss >= 5) return "inaccuracy"
+  return "good"
+}
+
+/**
+ * Stores an evaluation on a node and reclassifies the moves it affects: the
+ * move leading to the node and every move played from it.
+ */
+export function applyPositionEvaluation(
+  tree: MoveTree,
+  nodeId: string,
+  evaluation: PositionEvaluation
+): void {
+  const node = tree.nodes[nodeId]
+  node.evaluation = evaluation.score
+  node.bestMoveUci = evaluation.bestMoveUci
+
+  for (const affectedId of [nodeId, ...node.children]) {
+    const affected = tree.nodes[affectedId]
+    if (affected.parentId === null || !affected.evaluation) continue
+
+    const parent = tree.nodes[affected.parentId]
+    if (!parent.evaluation) continue
+
+    const bestSan = parent.bestMoveUci ? uciToSan(parent.fen, [parent.bestMoveUci])[0] : undefined
+    affected.classification = classifyMove(
+      parent.evaluation,
+      affected.evaluation,
+      affected.ply % 2 === 1,
+      bestSan === affected.san
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import type { MoveHistoryItem } from "@/types/chess"
+
+export type GuessSide = "white" | "black" | "both"
+
+export interface GuessResult {
+  moveNumber: number
+  isWhite: boolean
+  played: string
+  expected: string
+  points: number
+  // Winning chances the guess gave up against the game move, when the engine weighed it
+  winPercentLoss?: number
+}
+
+export const GUESS_MAX_POINTS = 10
+// Weighted scoring: an alternative as strong as the game move earns this much
+const ALTERNATIVE_MAX_POINTS = 8
+// ...and nothing once it gives up this many percentage points of winning chances
+const ZERO_POINTS_LOSS = 15
+
+/**
+ * Points for one guess. The game move always earns the maximum; other moves
+ * earn nothing, or partial credit scaled by how much they give up when
+ * weighted by the engine.
+ */
+export function scoreGuess(correct: boolean, winPercentLoss: number | null = null): number {
+  if (correct) return GUESS_MAX_POINTS
+  if (winPercentLoss === null) return 0
+  const share = Math.max(0, 1 - Math.max(0, winPercentLoss) / ZERO_POINTS_LOSS)
+  return Math.round(ALTERNATIVE_MAX_POINTS * share)
+}
+
+export function isGuessingSide(side: GuessSide, turn: "w" | "b"): boolean {
+  return side === "both" || side[0] === turn
+}
+
+/** The history up to and including the ply at `moveIndex`, so upcoming moves stay hidden. */
+export function truncateMoveHistory(history: MoveHistoryItem[], moveIndex: number): MoveHistoryItem[] {
+  // A position set up with Black to move starts the list on Black's slot
+  const offset = history[0]?.white ? 0 : 1
+  return history.flatMap((row, rowIndex) => {
+    const whiteIndex = rowIndex * 2 - offset
+    if (whiteIndex > moveIndex) return []
+    return [{ ...row, black: whiteIndex + 1 <= moveIndex ? row.black : null }]
+  })
+}
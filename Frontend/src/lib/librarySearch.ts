@@ -0,0 +1,116 @@
+import type { DateRange } from "react-day-picker"
+import type { GameSource, LibraryGameSummary } from "@/types/library"
+
+export type ResultFilter = "any" | "1-0" | "0-1" | "1/2-1/2" | "*"
+
+export interface LibraryFilters {
+  text: string
+  player: string
+  result: ResultFilter
+  dateRange?: DateRange
+  event: string
+  opening: string
+  source: GameSource | "any"
+  tags: string[]
+}
+
+export const EMPTY_LIBRARY_FILTERS: LibraryFilters = {
+  text: "",
+  player: "",
+  result: "any",
+  dateRange: undefined,
+  event: "",
+  opening: "",
+  source: "any",
+  tags: [],
+}
+
+export const LIBRARY_PAGE_SIZE = 10
+
+/**
+ * Reads a PGN date ("2024.03.17"). Unknown parts ("2024.??.??") fall back to
+ * the start of the known period so partial dates still sort and filter sensibly.
+ */
+export function parsePgnDate(date?: string): Date | null {
+  const match = date?.match(/^(\d{4})[.\-/](\d{2}|\?\?)[.\-/](\d{2}|\?\?)$/)
+  if (!match) return null
+
+  const year = parseInt(match[1], 10)
+  const month = match[2] === "??" ? 0 : parseInt(match[2], 10) - 1
+  const day = match[3] === "??" ? 1 : parseInt(match[3], 10)
+  return new Date(year, month, day)
+}
+
+function includesText(value: string | undefined, query: string): boolean {
+  return !!value && value.toLowerCase().includes(query)
+}
+
+function matchesDateRange(game: LibraryGameSummary, range?: DateRange): boolean {
+  if (!range?.from && !range?.to) return true
+
+  const date = parsePgnDate(game.metadata.date)
+  if (!date) return false
+
+  const end = range.to ?? range.from
+  if (range.from && date < startOfDay(range.from)) return false
+  if (end && date > endOfDay(end)) return false
+  return true
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999)
+}
+
+export function hasActiveFilters(filters: LibraryFilters): boolean {
+  return (
+    !!filters.text.trim() ||
+    !!filters.player.trim() ||
+    filters.result !== "any" ||
+    !!filters.dateRange?.from ||
+    !!filters.event.trim() ||
+    !!filters.opening.trim() ||
+    filters.source !== "any" ||
+    filters.tags.length > 0
+  )
+}
+
+/** Every tag used in the library, alphabetically. */
+export function collectTags(games: LibraryGameSummary[]): string[] {
+  return [...new Set(games.flatMap((game) => game.tags ?? []))].sort((a, b) => a.localeCompare(b))
+}
+
+export function filterLibraryGames(games: LibraryGameSummary[], filters: LibraryFilters): LibraryGameSummary[] {
+  const text = filters.text.trim().toLowerCase()
+  const player = filters.player.trim().toLowerCase()
+  const event = filters.event.trim().toLowerCase()
+  const opening = filters.opening.trim().toLowerCase()
+
+  return games.filter((game) => {
+    const { metadata } = game
+    const openingNames = [metadata.eco, metadata.opening, game.identifiedOpening?.eco, game.identifiedOpening?.name]
+
+    if (player && !includesText(metadata.white, player) && !includesText(metadata.black, player)) return false
+    if (filters.result !== "any" && (metadata.result ?? "*") !== filters.result) return false
+    if (event && !includesText(metadata.event, event)) return false
+    if (opening && !openingNames.some((value) => includesText(value, opening))) return false
+    if (filters.source !== "any" && game.source !== filters.source) return false
+    if (filters.tags.some((tag) => !game.tags?.includes(tag))) return false
+    if (!matchesDateRange(game, filters.dateRange)) return false
+
+    if (text) {
+      const haystack = [
+        game.name,
+        ...Object.values(metadata).filter((value): value is string => typeof value === "string"),
+        ...Object.values(metadata.extraTags ?? {}),
+        ...(game.tags ?? []),
+      ]
+      if (!haystack.some((value) => includesText(value, text))) return false
+    }
+
+    return true
+  })
+}
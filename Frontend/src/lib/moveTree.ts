@@ -0,0 +1,218 @@
+import { Chess, DEFAULT_POSITION } from "chess.js"
+import type { Move } from "chess.js"
+import { extractAnnotations } from "@/lib/boardAnnotations"
+import { extractEvaluation } from "@/lib/evaluation"
+import type { MoveNode, MoveTree, ParsedGame, PgnMove, PlayedMove, VariationOption } from "@/types/chess"
+
+function startingPly(fen: string): number {
+  const [, turn = "w", , , , fullMove = "1"] = fen.split(/\s+/)
+  const moveNumber = Math.max(1, parseInt(fullMove, 10) || 1)
+  return (moveNumber - 1) * 2 + (turn === "b" ? 1 : 0)
+}
+
+export function createMoveTree(startFen: string = DEFAULT_POSITION): MoveTree {
+  const root: MoveNode = {
+    id: "root",
+    parentId: null,
+    children: [],
+    san: "",
+    fen: startFen,
+    ply: startingPly(startFen),
+    lastMove: null,
+  }
+
+  return {
+    rootId: root.id,
+    nodes: { [root.id]: root },
+    nextId: 1,
+  }
+}
+
+export function getRootNode(tree: MoveTree): MoveNode {
+  return tree.nodes[tree.rootId]
+}
+
+/**
+ * Appends a move below `parentId`. If the same move already exists as a child
+ * it is reused, so replaying a known line never duplicates a branch. The first
+ * child of a node is its main continuation; later children are variations.
+ */
+export function addMove(tree: MoveTree, parentId: string, move: Move): MoveNode {
+  const parent = tree.nodes[parentId]
+  const existing = parent.children
+    .map((childId) => tree.nodes[childId])
+    .find((child) => child.san === move.san)
+
+  if (existing) {
+    return existing
+  }
+
+  const node: MoveNode = {
+    id: `n${tree.nextId}`,
+    parentId,
+    children: [],
+    san: move.san,
+    fen: move.after,
+    ply: parent.ply + 1,
+    lastMove: { from: move.from, to: move.to },
+  }
+
+  tree.nextId += 1
+  tree.nodes[node.id] = node
+  parent.children.push(node.id)
+  return node
+}
+
+export function addSanLine(tree: MoveTree, parentId: string, sans: string[]): MoveNode {
+  let current = tree.nodes[parentId]
+  const chess = new Chess(current.fen)
+
+  for (const san of sans) {
+    const move = chess.move(san)
+    current = addMove(tree, current.id, move)
+  }
+
+  return current
+}
+
+// Drawings and evaluations in the comment belong to the position the node leads to
+function applyPgnComment(node: MoveNode, comment: string): void {
+  const { text: withoutDrawings, annotations } = extractAnnotations(comment)
+  const { text, evaluation } = extractEvaluation(withoutDrawings)
+  if (text) node.comment = text
+  if (annotations) node.annotations = annotations
+  if (evaluation) node.evaluation = evaluation
+}
+
+function addPgnLine(tree: MoveTree, parentId: string, moves: PgnMove[]): MoveNode {
+  let current = tree.nodes[parentId]
+
+  for (const pgnMove of moves) {
+    const chess = new Chess(current.fen)
+    const move = chess.move(pgnMove.san)
+    const node = addMove(tree, current.id, move)
+
+    if (pgnMove.comment) applyPgnComment(node, pgnMove.comment)
+    if (pgnMove.startingComment) node.startingComment = pgnMove.startingComment
+    if (pgnMove.nags.length > 0) node.nags = [...pgnMove.nags]
+
+    // Variations are alternatives to this move, so they branch from the same parent
+    for (const variation of pgnMove.variations) {
+      addPgnLine(tree, current.id, variation)
+    }
+
+    current = node
+  }
+
+  return current
+}
+
+/** The `[FEN]` header when the game starts from a set-up position. */
+export function getStartingFen(game: ParsedGame): string {
+  return game.headers.FEN?.trim() || DEFAULT_POSITION
+}
+
+/**
+ * Replays a parsed PGN game into a move tree. Throws if any move in the main
+ * line or a variation is illegal in its position.
+ */
+export function buildMoveTree(game: ParsedGame): MoveTree {
+  const tree = createMoveTree(getStartingFen(game))
+  if (game.comment) {
+    applyPgnComment(getRootNode(tree), game.comment)
+  }
+  addPgnLine(tree, tree.rootId, game.moves)
+  return tree
+}
+
+/** Nodes from the first move down to `nodeId`, excluding the root. */
+export function getNodePath(tree: MoveTree, nodeId: string): MoveNode[] {
+  const path: MoveNode[] = []
+  let current: MoveNode | undefined = tree.nodes[nodeId]
+
+  while (current && current.parentId !== null) {
+    path.unshift(current)
+    current = tree.nodes[current.parentId]
+  }
+
+  return path
+}
+
+/** Follows main continuations from `nodeId` until the end of that line. */
+export function getLineEnd(tree: MoveTree, nodeId: string): string {
+  let current = tree.nodes[nodeId]
+  while (current.children.length > 0) {
+    current = tree.nodes[current.children[0]]
+  }
+  return current.id
+}
+
+export function isMainLineNode(tree: MoveTree, nodeId: string): boolean {
+  let current = tree.nodes[nodeId]
+
+  while (current.parentId !== null) {
+    const parent = tree.nodes[current.parentId]
+    if (parent.children[0] !== current.id) {
+      return false
+    }
+    current = parent
+  }
+
+  return true
+}
+
+/** Nearest ancestor (or the node itself) that lies on the main line. */
+export function getMainLineAncestor(tree: MoveTree, nodeId: string): string {
+  let current = tree.nodes[nodeId]
+  while (!isMainLineNode(tree, current.id) && current.parentId !== null) {
+    current = tree.nodes[current.parentId]
+  }
+  return current.id
+}
+
+export function isAncestorOf(tree: MoveTree, ancestorId: string, nodeId: string): boolean {
+  let current: MoveNode | undefined = tree.nodes[nodeId]
+  while (current) {
+    if (current.id === ancestorId) return true
+    current = current.parentId !== null ? tree.nodes[current.parentId] : undefined
+  }
+  return false
+}
+
+export function getMoveNumber(node: MoveNode): number {
+  return Math.ceil(node.ply / 2)
+}
+
+export function isWhiteMove(node: MoveNode): boolean {
+  return node.ply % 2 === 1
+}
+
+export function toPlayedMoves(tree: MoveTree, path: MoveNode[]): PlayedMove[] {
+  return path.map((node) => ({
+    san: node.san,
+    isCustom: !isMainLineNode(tree, node.id),
+    nodeId: node.id,
+    nags: node.nags,
+    evaluation: node.evaluation,
+    classification: node.classification,
+  }))
+}
+
+/** Alternatives to `followingId` that branch off directly after `nodeId`. */
+export function getVariationOptions(
+  tree: MoveTree,
+  nodeId: string,
+  followingId: string | null
+): VariationOption[] {
+  return tree.nodes[nodeId].children
+    .filter((childId) => childId !== followingId)
+    .map((childId) => {
+      const child = tree.nodes[childId]
+      return {
+        nodeId: child.id,
+        san: child.san,
+        moveNumber: getMoveNumber(child),
+        isWhite: isWhiteMove(child),
+      }
+    })
+}
@@ -0,0 +1,66 @@
+import { Chess, DEFAULT_POSITION } from "chess.js"
+import type { ExtractedMove } from "@/lib/parseChessNotation"
+
+export interface ReviewedMove extends ExtractedMove {
+  // Position before the move; null once an earlier move is illegal
+  fen: string | null
+  isLegal: boolean
+}
+
+/** Replays the extracted moves, normalising legal ones to SAN and marking where the game breaks. */
+export function replayExtractedMoves(moves: ExtractedMove[]): ReviewedMove[] {
+  const chess = new Chess(DEFAULT_POSITION)
+  let broken = false
+
+  return moves.map((move) => {
+    if (broken) return { ...move, fen: null, isLegal: false }
+
+    const fen = chess.fen()
+    try {
+      const played = chess.move(move.san)
+      return { ...move, san: played.san, fen, isLegal: true }
+    } catch {
+      broken = true
+      return { ...move, fen, isLegal: false }
+    }
+  })
+}
+
+/** How many moves from the start can be loaded. */
+export function countLegalMoves(moves: ReviewedMove[]): number {
+  const firstIllegal = moves.findIndex((move) => !move.isLegal)
+  return firstIllegal === -1 ? moves.length : firstIllegal
+}
+
+function stripMarks(san: string): string {
+  return san.replace(/[+#?!]/g, "")
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/** Legal moves in the position, the ones closest to what was typed or read first. */
+export function getMoveSuggestions(fen: string, input: string, limit = 8): string[] {
+  const target = stripMarks(input.trim())
+  const legalMoves = new Chess(fen).moves()
+  if (!target) return legalMoves.slice(0, limit)
+
+  return legalMoves
+    .map((san, index) => ({ san, index, distance: editDistance(stripMarks(san), target) }))
+    .sort((a, b) => a.distance - b.distance || a.index - b.index)
+    .slice(0, limit)
+    .map(({ san }) => san)
+}
@@ -0,0 +1,66 @@
+import type { LibraryGameSummary, PositionEntry } from "@/types/library"
+
+export interface ExplorerMove {
+  san: string
+  games: number
+  whiteWins: number
+  draws: number
+  blackWins: number
+  // Rating of the player who had to answer this move, averaged over games that record it
+  averageOpponentRating: number | null
+}
+
+function parseRating(elo?: string): number | null {
+  const rating = parseInt(elo ?? "", 10)
+  return Number.isFinite(rating) && rating > 0 ? rating : null
+}
+
+/**
+ * Every move the saved games continued with from one position, most played
+ * first. Each game counts once per move, even if the position repeated.
+ */
+export function buildExplorerMoves(
+  entries: PositionEntry[],
+  games: LibraryGameSummary[],
+  excludeGameId: string | null = null
+): ExplorerMove[] {
+  const gamesById = new Map(games.map((game) => [game.id, game]))
+  const seen = new Set<string>()
+  const moves = new Map<string, ExplorerMove & { ratingTotal: number; ratedGames: number }>()
+
+  for (const entry of entries) {
+    const game = gamesById.get(entry.gameId)
+    const key = `${entry.gameId} ${entry.nextSan}`
+    if (!entry.nextSan || !game || entry.gameId === excludeGameId || seen.has(key)) continue
+    seen.add(key)
+
+    const move = moves.get(entry.nextSan) ?? {
+      san: entry.nextSan,
+      games: 0,
+      whiteWins: 0,
+      draws: 0,
+      blackWins: 0,
+      averageOpponentRating: null,
+      ratingTotal: 0,
+      ratedGames: 0,
+    }
+    move.games++
+    if (game.metadata.result === "1-0") move.whiteWins++
+    if (game.metadata.result === "0-1") move.blackWins++
+    if (game.metadata.result === "1/2-1/2") move.draws++
+
+    const opponentRating = parseRating(entry.turn === "w" ? game.metadata.blackElo : game.metadata.whiteElo)
+    if (opponentRating !== null) {
+      move.ratingTotal += opponentRating
+      move.ratedGames++
+    }
+    moves.set(entry.nextSan, move)
+  }
+
+  return [...moves.values()]
+    .map(({ ratingTotal, ratedGames, ...move }) => ({
+      ...move,
+      averageOpponentRating: ratedGames > 0 ? Math.round(ratingTotal / ratedGames) : null,
+    }))
+    .sort((a, b) => b.games - a.games || a.san.localeCompare(b.san))
+}
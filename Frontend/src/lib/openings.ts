@@ -0,0 +1,50 @@
+import { Chess } from "chess.js"
+import openingsTsv from "@/data/openings.tsv?raw"
+import { getLineEnd, getNodePath, getRootNode } from "@/lib/moveTree"
+import { zobristHash } from "@/lib/zobrist"
+import type { MoveTree, Opening } from "@/types/chess"
+
+// The bundled table is a subset: the common named lines of about 220 of the 500 ECO codes
+
+let openingIndex: Map<string, Opening> | null = null
+
+// Built on first use: each named line is replayed once and keyed by the position it reaches
+function getOpeningIndex(): Map<string, Opening> {
+  if (openingIndex) return openingIndex
+
+  openingIndex = new Map()
+  for (const row of openingsTsv.trim().split("\n").slice(1)) {
+    const [eco, name, pgn] = row.split("\t")
+    const chess = new Chess()
+    try {
+      chess.loadPgn(pgn)
+    } catch {
+      continue
+    }
+    const hash = zobristHash(chess.fen())
+    // The first, more general name wins when two lines reach the same position
+    if (!openingIndex.has(hash)) {
+      openingIndex.set(hash, { eco, name })
+    }
+  }
+  return openingIndex
+}
+
+/**
+ * The deepest named opening among `fens`, given in the order they were played.
+ * Positions are matched rather than move orders, so transpositions are found.
+ */
+export function identifyOpening(fens: string[]): Opening | null {
+  const index = getOpeningIndex()
+  for (let i = fens.length - 1; i >= 0; i--) {
+    const opening = index.get(zobristHash(fens[i]))
+    if (opening) return opening
+  }
+  return null
+}
+
+/** The deepest named opening on the game's main line. */
+export function identifyGameOpening(tree: MoveTree): Opening | null {
+  const mainLine = getNodePath(tree, getLineEnd(tree, tree.rootId))
+  return identifyOpening([getRootNode(tree).fen, ...mainLine.map(({ fen }) => fen)])
+}
@@ -1,18 +1,47 @@
 import Papa from "papaparse"
-import { createWorker, PSM } from "tesseract.js"
+import { createWorker, PSM, type Block } from "tesseract.js"
 import { Chess } from "chess.js"
+import { parsePgnGame, parsePgnGames } from "@/lib/pgnParser"
+import { buildMoveTree, getLineEnd, getNodePath } from "@/lib/moveTree"
+import { metadataFromParsedGame } from "@/lib/gameMetadata"
+import { exportPgn } from "@/lib/pgnExport"
+import type { GameMetadata, ParsedGame } from "@/types/chess"
+import type { GameSource } from "@/types/library"
+
+export type OcrConfidence = "high" | "medium" | "low"
+
+export interface ExtractedMove {
+  san: string
+  // The notation as read from the scoresheet, before any correction
+  read: string
+  confidence: OcrConfidence
+  // Replaced by a common misreading fix because the move as read was illegal
+  corrected: boolean
+}
+
+// `verified` is false for the first move that could not be played and every move after it
+type ReadMove = Omit<ExtractedMove, "confidence"> & { verified: boolean }
 
 export interface ParseResult {
   success: boolean
   pgn?: string
+  game?: ParsedGame
+  games?: ParsedGame[]
+  metadata?: GameMetadata
+  source?: GameSource
   error?: string
   movesFound?: number
   isPartial?: boolean
   totalMovesInImage?: number
   imageQualityWarning?: string
+  // Scoresheet images only: how sure the reader was overall and about each move
+  confidence?: OcrConfidence
+  extractedMoves?: ExtractedMove[]
+  // The uploaded scoresheet photo, kept with the game
+  image?: Blob
 }
 
-function formatHistoryAsPgn(history: string[]): string {
+export function formatHistoryAsPgn(history: string[]): string {
   if (!history.length) {
     return ""
   }
@@ -57,6 +86,42 @@ export async function parsePgnTextInput(rawInput: string): Promise<ParseResult>
     }
   }
 
+  // Databases are handed back whole with no `pgn`: each game is validated and exported when it is opened
+  const databaseGames = parsePgnGames(cleanedInput)
+  if (databaseGames.length > 1) {
+    const [firstGame] = databaseGames
+    return {
+      success: true,
+      game: firstGame,
+      games: databaseGames,
+      metadata: metadataFromParsedGame(firstGame),
+      movesFound: Math.ceil(firstGame.moves.length / 2),
+    }
+  }
+
+  // Prefer the structured parser so comments, NAGs and variations survive the import
+  const parsedGame = parsePgnGame(cleanedInput)
+  if (parsedGame) {
+    try {
+      const tree = buildMoveTree(parsedGame)
+      const mainLine = getNodePath(tree, getLineEnd(tree, tree.rootId)).map((node) => node.san)
+
+      if (mainLine.length > 0) {
+        const metadata = metadataFromParsedGame(parsedGame)
+        return {
+          success: true,
+          // Exported from the tree so a game set up from a FEN keeps its tags and move numbers
+          pgn: exportPgn(tree, metadata),
+          game: parsedGame,
+          metadata,
+          movesFound: Math.ceil(mainLine.length / 2),
+        }
+      }
+    } catch {
+      // fall through to the lenient movetext flow
+    }
+  }
+
   const normalizedInput = normalizeCastling(cleanedInput)
   const candidates = [normalizedInput]
   const stripped = stripPgnMetadata(normalizedInput)
@@ -73,7 +138,7 @@ export async function parsePgnTextInput(rawInput: string): Promise<ParseResult>
       if (history.length > 0) {
         return {
           success: true,
-          pgn: formatHistoryAsPgn(history),
+          pgn: chess.getHeaders().FEN ? chess.pgn() : formatHistoryAsPgn(history),
           movesFound: Math.ceil(history.length / 2),
         }
       }
@@ -175,8 +240,8 @@ export async function parseImage(file: File): Promise<ParseResult> {
     })
 
     const {
-      data: { text },
-    } = await worker.recognize(file)
+      data: { text, blocks, confidence: pageConfidence },
+    } = await worker.recognize(file, {}, { text: true, blocks: true })
 
     await worker.terminate()
 
@@ -192,11 +257,17 @@ export async function parseImage(file: File): Promise<ParseResult> {
     }
 
     const moveCount = (cleanedText.match(/\d+\./g) || []).length
+    const wordConfidences = collectWordConfidences(blocks)
 
     return {
       success: true,
       pgn: cleanedText,
       movesFound: moveCount,
+      confidence: toOcrConfidence(pageConfidence),
+      extractedMoves: validationResult.moves.map(({ verified, ...move }) => ({
+        ...move,
+        confidence: verified ? toOcrConfidence(wordConfidences.get(moveKey(move.read)) ?? pageConfidence) : "low",
+      })),
     }
   } catch (error) {
     return await parseImageWithGemini(file)
@@ -281,14 +352,16 @@ Return a JSON object with this structure:
 {
   "moves": "1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7",
   "totalMoves": 7,
-  "confidence": "high"
+  "confidence": "high",
+  "unclearMoves": ["3... a6"]
 }
 
 Rules for output:
 - moves: PGN notation with move numbers, dots, and moves separated by spaces
 - totalMoves: Total number of move pairs you can see in the scoresheet (count all rows with moves)
 - confidence: "high" if all moves are clear, "medium" if some are unclear, "low" if handwriting is very difficult
-- If no chess notation found, return: {"moves": "NO_NOTATION_FOUND", "totalMoves": 0, "confidence": "low"}
+- unclearMoves: every move you were unsure about, written as "12. Nf3" for White or "12... Nf6" for Black; empty if all moves are clear
+- If no chess notation found, return: {"moves": "NO_NOTATION_FOUND", "totalMoves": 0, "confidence": "low", "unclearMoves": []}
 
 🎯 QUALITY CHECK:
 Before returning your answer:
@@ -333,6 +406,7 @@ Now carefully extract the moves from this scoresheet image:`
     let extractedMoves = ""
     let totalMovesInImage = 0
     let confidence = "unknown"
+    let unclearMoves: unknown = []
     
     try {
       // Remove markdown code blocks if present
@@ -342,6 +416,7 @@ Now carefully extract the moves from this scoresheet image:`
         extractedMoves = parsed.moves || ""
         totalMovesInImage = parsed.totalMoves || 0
         confidence = parsed.confidence || "unknown"
+        unclearMoves = parsed.unclearMoves ?? []
       } else {
         // Fallback to treating response as plain PGN
         extractedMoves = geminiResponse
@@ -382,9 +457,22 @@ Now carefully extract the moves from this scoresheet image:`
     }
 
     const validationResult = validatePgnWithDetails(cleanedText)
+    const overallConfidence = isOcrConfidence(confidence) ? confidence : undefined
+    const unclearPlies = new Set(
+      (Array.isArray(unclearMoves) ? unclearMoves : []).flatMap((entry) => {
+        const ply = typeof entry === "string" ? parsePlyReference(entry) : null
+        return ply === null ? [] : [ply]
+      })
+    )
+    // Flagged and unplayable moves are low; the rest are high only when the model was sure of the whole sheet
+    const scoredMoves = validationResult.moves.map(({ verified, ...move }, ply): ExtractedMove => ({
+      ...move,
+      confidence: !verified || unclearPlies.has(ply) ? "low" : overallConfidence === "high" ? "high" : "medium",
+    }))
     if (!validationResult.valid) {
       
-      if (validationResult.partialPgn && validationResult.moveCount > 0) {
+      // Even a sheet whose first move is unreadable goes to the review, where it can be fixed by hand
+      if (scoredMoves.length > 0) {
         // Only show warning if we know total moves and didn't get them all
         const warningMessage = totalMovesInImage > 0 && validationResult.moveCount < totalMovesInImage
           ? `Only ${validationResult.moveCount} of ${totalMovesInImage} moves could be extracted from the image. Some moves may be unclear due to handwriting. Consider re-uploading a clearer image for complete game analysis.`
@@ -392,11 +480,13 @@ Now carefully extract the moves from this scoresheet image:`
         
         return {
           success: true,
-          pgn: validationResult.partialPgn,
+          pgn: validationResult.partialPgn ?? "",
           movesFound: validationResult.moveCount,
           isPartial: true,
           totalMovesInImage: totalMovesInImage > 0 ? totalMovesInImage : undefined,
           imageQualityWarning: warningMessage,
+          confidence: overallConfidence,
+          extractedMoves: scoredMoves,
         }
       }
       
@@ -421,6 +511,8 @@ Now carefully extract the moves from this scoresheet image:`
       isPartial: moveCount < totalMovesInImage,
       totalMovesInImage: totalMovesInImage > 0 ? totalMovesInImage : undefined,
       imageQualityWarning: warningMessage,
+      confidence: overallConfidence,
+      extractedMoves: scoredMoves,
     }
   } catch (error) {
     console.error("Gemini API error:", error)
@@ -443,6 +535,46 @@ function fileToBase64(file: File): Promise<string> {
   })
 }
 
+function isOcrConfidence(value: unknown): value is OcrConfidence {
+  return value === "high" || value === "medium" || value === "low"
+}
+
+// Tesseract scores words from 0 to 100
+function toOcrConfidence(score: number): OcrConfidence {
+  if (score >= 85) return "high"
+  if (score >= 60) return "medium"
+  return "low"
+}
+
+// Compares a scoresheet word with a move regardless of move numbers and check marks
+function moveKey(text: string): string {
+  return normalizeCastling(text).replace(/^\d+\.+/, "").replace(/[+#?!]/g, "")
+}
+
+function collectWordConfidences(blocks: Block[] | null): Map<string, number> {
+  const confidences = new Map<string, number>()
+  for (const block of blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          const key = moveKey(word.text)
+          // A move written more than once counts with its least certain reading
+          confidences.set(key, Math.min(confidences.get(key) ?? 100, word.confidence))
+        }
+      }
+    }
+  }
+  return confidences
+}
+
+// "12. Nf3" is White's 12th move and "12... Nf6" Black's, as plies counted from 0
+function parsePlyReference(reference: string): number | null {
+  const match = reference.trim().match(/^(\d+)\s*(\.{3}|\.\s*\.\.\.|\.)/)
+  if (!match) return null
+  const moveNumber = parseInt(match[1], 10)
+  return moveNumber > 0 ? (moveNumber - 1) * 2 + (match[2] === "." ? 0 : 1) : null
+}
+
 function stripPgnMetadata(text: string): string {
   if (!text) return ""
 
@@ -688,7 +820,21 @@ function tryOcrCorrections(move: string, chess: Chess): string | null {
   return null
 }
 
-function validatePgnWithDetails(pgn: string): { valid: boolean; failedAt?: string; partialPgn?: string; moveCount: number } {
+// The move tokens of a movetext as written, without move numbers or the result
+function readMoveTokens(movetext: string): string[] {
+  return movetext
+    .split(/\s+/)
+    .map((token) => normalizeCastling(token.trim().replace(/\d+\./g, "").replace(/^\.+/, "")))
+    .filter((token) => token && !/^(1-0|0-1|1\/2-1\/2|\*)$/.test(token))
+}
+
+function validatePgnWithDetails(pgn: string): {
+  valid: boolean
+  failedAt?: string
+  partialPgn?: string
+  moveCount: number
+  moves: ReadMove[]
+} {
   const normalized = normalizeCastling(pgn)
   const cleanedPgn = stripPgnMetadata(normalized)
 
@@ -699,10 +845,21 @@ function validatePgnWithDetails(pgn: string): { valid: boolean; failedAt?: strin
     if (moveCount === 0) {
       throw new Error("No moves parsed")
     }
-    return { valid: true, moveCount }
+    const history = testGame.history()
+    const tokens = readMoveTokens(cleanedPgn)
+    // Keep the notation as read when it lines up with the moves played
+    const moves = history.map((san, index) => ({
+      san,
+      read: tokens.length === history.length ? tokens[index] : san,
+      corrected: false,
+      verified: true,
+    }))
+    return { valid: true, moveCount, moves }
   } catch (error) {
     const testGame = new Chess()
-    let partialMoves: string[] = []
+    let partialMoves: ReadMove[] = []
+    // The move that could not be played and everything after it, kept for the user to fix
+    const unverifiedMoves: ReadMove[] = []
     let failedAtMove = ""
     let currentMoveNumber = 1
     const moves = cleanedPgn.split(/\s+/)
@@ -721,6 +878,13 @@ function validatePgnWithDetails(pgn: string): { valid: boolean; failedAt?: strin
       
       // Apply castling normalization to each individual token
       cleanToken = normalizeCastling(cleanToken)
+
+      if (/^(1-0|0-1|1\/2-1\/2|\*)$/.test(cleanToken)) continue
+
+      if (failedAtMove) {
+        unverifiedMoves.push({ san: cleanToken, read: cleanToken, corrected: false, verified: false })
+        continue
+      }
       
       try {
         let attemptedMove = testGame.move(cleanToken)
@@ -729,19 +893,19 @@ function validatePgnWithDetails(pgn: string): { valid: boolean; failedAt?: strin
           throw new Error(`Illegal move`)
         }
         
-        partialMoves.push(cleanToken)
+        partialMoves.push({ san: attemptedMove.san, read: cleanToken, corrected: false, verified: true })
       } catch (moveError) {
         // Try common OCR misreadings before giving up
         const correctedMove = tryOcrCorrections(cleanToken, testGame)
         
         if (correctedMove) {
-          partialMoves.push(correctedMove)
-          testGame.move(correctedMove)
+          const move = testGame.move(correctedMove)
+          partialMoves.push({ san: move.san, read: cleanToken, corrected: true, verified: true })
           continue
         }
         
         failedAtMove = `${token} (move ${currentMoveNumber})`
-        break
+        unverifiedMoves.push({ san: cleanToken, read: cleanToken, corrected: false, verified: false })
       }
     }
     
@@ -749,9 +913,9 @@ function validatePgnWithDetails(pgn: string): { valid: boolean; failedAt?: strin
       let reconstructedPgn = ""
       for (let i = 0; i < partialMoves.length; i += 2) {
         const moveNum = Math.floor(i / 2) + 1
-        reconstructedPgn += `${moveNum}. ${partialMoves[i]}`
+        reconstructedPgn += `${moveNum}. ${partialMoves[i].san}`
         if (partialMoves[i + 1]) {
-          reconstructedPgn += ` ${partialMoves[i + 1]}`
+          reconstructedPgn += ` ${partialMoves[i + 1].san}`
         }
         reconstructedPgn += " "
       }
@@ -761,9 +925,10 @@ function validatePgnWithDetails(pgn: string): { valid: boolean; failedAt?: strin
         failedAt: failedAtMove || "end of game",
         partialPgn: reconstructedPgn.trim(),
         moveCount: Math.ceil(partialMoves.length / 2),
+        moves: [...partialMoves, ...unverifiedMoves],
       }
     }
     
-    return { valid: false, failedAt: failedAtMove || "start", moveCount: 0 }
+    return { valid: false, failedAt: failedAtMove || "start", moveCount: 0, moves: unverifiedMoves }
   }
 }
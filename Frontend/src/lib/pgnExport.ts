@@ -0,0 +1,173 @@
+import { DEFAULT_POSITION } from "chess.js"
+import { formatAnnotations } from "@/lib/boardAnnotations"
+import { CHECKMATE_CP } from "@/lib/evaluation"
+import { metadataToHeaders } from "@/lib/gameMetadata"
+import { getMoveNumber, getRootNode, isWhiteMove } from "@/lib/moveTree"
+import { identifyGameOpening } from "@/lib/openings"
+import type { GameMetadata, MoveNode, MoveTree } from "@/types/chess"
+import type { EngineScore } from "@/types/engine"
+
+export interface PgnExportOptions {
+  includeVariations: boolean
+  // Comments, NAGs and board drawings
+  includeComments: boolean
+  includeEvaluations: boolean
+}
+
+export const DEFAULT_PGN_EXPORT_OPTIONS: PgnExportOptions = {
+  includeVariations: true,
+  includeComments: true,
+  includeEvaluations: true,
+}
+
+const SEVEN_TAG_ROSTER = ["Event", "Site", "Date", "Round", "White", "Black", "Result"]
+const MAX_LINE_LENGTH = 80
+
+function formatEval(score: EngineScore): string | null {
+  if (score.type === "mate") return `[%eval #${score.value}]`
+  if (Math.abs(score.value) >= CHECKMATE_CP) return null
+  return `[%eval ${(score.value / 100).toFixed(2)}]`
+}
+
+function formatComment(parts: Array<string | null | undefined>): string | null {
+  const text = parts.filter(Boolean).join(" ").trim()
+  // Braces cannot be escaped inside a PGN comment
+  return text ? `{ ${text.replace(/}/g, ")")} }` : null
+}
+
+function buildHeaders(tree: MoveTree, metadata: GameMetadata): Array<[string, string]> {
+  const headers: Record<string, string> = { ...metadataToHeaders(metadata) }
+  const startFen = getRootNode(tree).fen
+
+  headers.Result = metadata.result || "*"
+  delete headers.SetUp
+  delete headers.FEN
+  if (startFen !== DEFAULT_POSITION) {
+    headers.SetUp = "1"
+    headers.FEN = startFen
+  }
+
+  // Tags the game already carries win over the bundled ECO database
+  const opening = identifyGameOpening(tree)
+  if (opening) {
+    headers.ECO ||= opening.eco
+    headers.Opening ||= opening.name
+  }
+
+  const roster: Array<[string, string]> = SEVEN_TAG_ROSTER.map((tag) => [tag, headers[tag] || "?"])
+  const rest = Object.entries(headers).filter(([tag]) => !SEVEN_TAG_ROSTER.includes(tag))
+  return [...roster, ...rest]
+}
+
+/** Appends a line starting at `node`, following first children and nesting alternatives. */
+function appendLine(tree: MoveTree, node: MoveNode, tokens: string[], options: PgnExportOptions): void {
+  let current: MoveNode | undefined = node
+  let needsNumber = true
+
+  while (current) {
+    const startingComment = options.includeComments ? formatComment([current.startingComment]) : null
+    if (startingComment) {
+      tokens.push(startingComment)
+      needsNumber = true
+    }
+
+    // The move number shares the move's token so wrapping never separates them
+    if (isWhiteMove(current)) {
+      tokens.push(`${getMoveNumber(current)}. ${current.san}`)
+    } else if (needsNumber) {
+      tokens.push(`${getMoveNumber(current)}... ${current.san}`)
+    } else {
+      tokens.push(current.san)
+    }
+    needsNumber = false
+
+    if (options.includeComments) {
+      tokens.push(...(current.nags ?? []).map((nag) => `$${nag}`))
+    }
+
+    const comment = formatComment([
+      options.includeComments ? current.comment : null,
+      options.includeEvaluations && current.evaluation ? formatEval(current.evaluation) : null,
+      options.includeComments ? formatAnnotations(current.annotations) : null,
+    ])
+    if (comment) {
+      tokens.push(comment)
+      needsNumber = true
+    }
+
+    const parent: MoveNode = tree.nodes[current.parentId!]
+    if (options.includeVariations && parent.children[0] === current.id) {
+      for (const alternativeId of parent.children.slice(1)) {
+        tokens.push("(")
+        appendLine(tree, tree.nodes[alternativeId], tokens, options)
+        tokens.push(")")
+        needsNumber = true
+      }
+    }
+
+    current = tree.nodes[current.children[0]]
+  }
+}
+
+function wrapTokens(tokens: string[]): string {
+  const lines: string[] = []
+  let line = ""
+
+  for (const token of tokens) {
+    // No space just inside variation parentheses
+    const separator = !line || line.endsWith("(") || token === ")" ? "" : " "
+    if (line && line.length + separator.length + token.length > MAX_LINE_LENGTH) {
+      lines.push(line)
+      line = token
+    } else {
+      line += separator + token
+    }
+  }
+
+  if (line) lines.push(line)
+  return lines.join("\n")
+}
+
+/**
+ * Writes the whole game as PGN: tag pairs, then the main line with its
+ * variations, comments, NAGs, `[%eval]` scores and `[%csl]`/`[%cal]` drawings
+ * as selected in `options`.
+ */
+export function exportPgn(
+  tree: MoveTree,
+  metadata: GameMetadata,
+  options: PgnExportOptions = DEFAULT_PGN_EXPORT_OPTIONS
+): string {
+  const headers = buildHeaders(tree, metadata)
+  const root = getRootNode(tree)
+  const tokens: string[] = []
+
+  const rootComment = formatComment([
+    options.includeComments ? root.comment : null,
+    options.includeEvaluations && root.evaluation ? formatEval(root.evaluation) : null,
+    options.includeComments ? formatAnnotations(root.annotations) : null,
+  ])
+  if (rootComment) tokens.push(rootComment)
+
+  const firstMove = tree.nodes[root.children[0]]
+  if (firstMove) appendLine(tree, firstMove, tokens, options)
+  tokens.push(headers.find(([tag]) => tag === "Result")![1])
+
+  const tagSection = headers
+    .map(([tag, value]) => `[${tag} "${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"]`)
+    .join("\n")
+
+  return `${tagSection}\n\n${wrapTokens(tokens)}\n`
+}
+
+/** A file name like `Carlsen_vs_Nakamura_2024.01.15.pgn`. */
+export function getPgnFileName(metadata: GameMetadata): string {
+  const parts = [metadata.white, "vs", metadata.black, metadata.date]
+  if (!metadata.white && !metadata.black) return "game.pgn"
+
+  const name = parts
+    .filter(Boolean)
+    .join("_")
+    .replace(/[^\p{L}\p{N}._-]+/gu, "_")
+  return `${name}.pgn`
+}
@@ -0,0 +1,308 @@
+import type { ParsedGame, PgnMove } from "@/types/chess"
+
+type PgnToken =
+  | { type: "header"; name: string; value: string }
+  | { type: "comment"; text: string }
+  | { type: "nag"; value: number }
+  | { type: "open" }
+  | { type: "close" }
+  | { type: "result"; value: string }
+  | { type: "move"; san: string }
+
+const RESULT_TOKENS = new Set(["1-0", "0-1", "1/2-1/2", "*"])
+
+// Traditional move suffixes and their numeric annotation glyph equivalents
+const SUFFIX_NAGS: Record<string, number> = {
+  "!": 1,
+  "?": 2,
+  "!!": 3,
+  "??": 4,
+  "!?": 5,
+  "?!": 6,
+}
+
+const NAG_GLYPHS: Record<number, string> = {
+  1: "!",
+  2: "?",
+  3: "!!",
+  4: "??",
+  5: "!?",
+  6: "?!",
+  10: "=",
+  13: "∞",
+  14: "⩲",
+  15: "⩱",
+  16: "±",
+  17: "∓",
+  18: "+−",
+  19: "−+",
+}
+
+export function nagToGlyph(nag: number): string {
+  return NAG_GLYPHS[nag] ?? `$${nag}`
+}
+
+function normalizeSan(token: string): string {
+  return token
+    .replace(/^0-0-0/, "O-O-O")
+    .replace(/^0-0/, "O-O")
+    .replace(/^[oО]-[oО]-[oО]/i, "O-O-O")
+    .replace(/^[oО]-[oО]/i, "O-O")
+}
+
+function tokenizePgn(input: string): PgnToken[] {
+  const tokens: PgnToken[] = []
+  let index = 0
+
+  while (index < input.length) {
+    const char = input[index]
+
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+
+    if (char === "[") {
+      const end = input.indexOf("]", index)
+      if (end === -1) throw new Error("Unterminated header tag")
+      const match = input.slice(index + 1, end).match(/^\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*$/)
+      if (match) {
+        tokens.push({ type: "header", name: match[1], value: match[2].replace(/\\(["\\])/g, "$1") })
+      }
+      index = end + 1
+      continue
+    }
+
+    if (char === "{") {
+      const end = input.indexOf("}", index)
+      if (end === -1) throw new Error("Unterminated comment")
+      tokens.push({ type: "comment", text: input.slice(index + 1, end).replace(/\s+/g, " ").trim() })
+      index = end + 1
+      continue
+    }
+
+    if (char === ";") {
+      const end = input.indexOf("\n", index)
+      const stop = end === -1 ? input.length : end
+      tokens.push({ type: "comment", text: input.slice(index + 1, stop).trim() })
+      index = stop
+      continue
+    }
+
+    if (char === "(") {
+      tokens.push({ type: "open" })
+      index++
+      continue
+    }
+
+    if (char === ")") {
+      tokens.push({ type: "close" })
+      index++
+      continue
+    }
+
+    if (char === "$") {
+      const match = input.slice(index).match(/^\$(\d+)/)
+      if (match) {
+        tokens.push({ type: "nag", value: parseInt(match[1], 10) })
+        index += match[0].length
+      } else {
+        index++
+      }
+      continue
+    }
+
+    const match = input.slice(index).match(/^[^\s{}()[\];$]+/)
+    if (!match) {
+      index++
+      continue
+    }
+
+    index += match[0].length
+    let word = match[0]
+
+    if (RESULT_TOKENS.has(word)) {
+      tokens.push({ type: "result", value: word })
+      continue
+    }
+
+    // Drop move numbers such as "12." or "12..." glued to the move text
+    word = word.replace(/^\d+\.+/, "")
+    if (!word || /^\.+$/.test(word)) continue
+    if (/^\d+$/.test(word)) continue
+
+    const suffixMatch = word.match(/([!?]{1,2})$/)
+    const san = normalizeSan(suffixMatch ? word.slice(0, -suffixMatch[1].length) : word)
+    if (san) {
+      tokens.push({ type: "move", san })
+    }
+    if (suffixMatch && SUFFIX_NAGS[suffixMatch[1]] !== undefined) {
+      tokens.push({ type: "nag", value: SUFFIX_NAGS[suffixMatch[1]] })
+    }
+  }
+
+  return tokens
+}
+
+function parseLine(tokens: PgnToken[], start: number, nested: boolean): { moves: PgnMove[]; next: number; result?: string; leadingComment?: string } {
+  const moves: PgnMove[] = []
+  let pendingComments: string[] = []
+  let leadingComment: string | undefined
+  let index = start
+
+  const flushComments = () => {
+    if (pendingComments.length === 0) return
+    const text = pendingComments.join(" ")
+    pendingComments = []
+
+    const lastMove = moves[moves.length - 1]
+    if (lastMove) {
+      lastMove.comment = lastMove.comment ? `${lastMove.comment} ${text}` : text
+    } else {
+      leadingComment = leadingComment ? `${leadingComment} ${text}` : text
+    }
+  }
+
+  while (index < tokens.length) {
+    const token = tokens[index]
+
+    switch (token.type) {
+      case "comment":
+        pendingComments.push(token.text)
+        index++
+        break
+      case "nag": {
+        const lastMove = moves[moves.length - 1]
+        if (lastMove && !lastMove.nags.includes(token.value)) {
+          lastMove.nags.push(token.value)
+        }
+        index++
+        break
+      }
+      case "move":
+        flushComments()
+        moves.push({ san: token.san, nags: [], variations: [] })
+        index++
+        break
+      case "open": {
+        flushComments()
+        const lastMove = moves[moves.length - 1]
+        if (!lastMove) throw new Error("Variation without a preceding move")
+        const variation = parseLine(tokens, index + 1, true)
+        if (variation.moves.length > 0) {
+          if (variation.leadingComment) {
+            variation.moves[0].startingComment = variation.leadingComment
+          }
+          lastMove.variations.push(variation.moves)
+        }
+        index = variation.next
+        break
+      }
+      case "close":
+        if (!nested) throw new Error("Unbalanced variation parenthesis")
+        flushComments()
+        return { moves, next: index + 1, leadingComment }
+      case "result":
+        if (nested) {
+          index++
+          break
+        }
+        flushComments()
+        return { moves, next: index + 1, result: token.value, leadingComment }
+      case "header":
+        // A header after movetext starts the next game
+        flushComments()
+        return { moves, next: index, leadingComment }
+    }
+  }
+
+  if (nested) throw new Error("Unterminated variation")
+  flushComments()
+  return { moves, next: index, leadingComment }
+}
+
+/**
+ * Parses a single PGN game into headers, main line and nested variations,
+ * keeping comments and annotation glyphs. Moves are not validated here;
+ * legality is checked when the game is replayed into a move tree.
+ */
+export function parsePgnGame(input: string): ParsedGame | null {
+  try {
+    const tokens = tokenizePgn(input)
+    const headers: Record<string, string> = {}
+    let index = 0
+
+    while (index < tokens.length && tokens[index].type === "header") {
+      const token = tokens[index] as Extract<PgnToken, { type: "header" }>
+      headers[token.name] = token.value
+      index++
+    }
+
+    const { moves, result, leadingComment } = parseLine(tokens, index, false)
+
+    return {
+      headers,
+      moves,
+      result: result ?? headers.Result ?? "*",
+      comment: leadingComment,
+    }
+  } catch {
+    return null
+  }
+}
+
+/** Splits a PGN database into the raw text of each game. */
+export function splitPgnGames(input: string): string[] {
+  const games: string[] = []
+  let current: string[] = []
+  let hasMovetext = false
+  // A "[" inside a comment or variation (such as [%eval] or [%clk]) never starts a new game
+  let inComment = false
+  let variationDepth = 0
+
+  for (const line of input.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    const isHeaderLine = !inComment && variationDepth === 0 && trimmed.startsWith("[")
+
+    if (isHeaderLine && hasMovetext) {
+      games.push(current.join("\n"))
+      current = []
+      hasMovetext = false
+    }
+
+    // Movetext may follow the tag pairs on the same line
+    const movetext = isHeaderLine ? trimmed.replace(/^(\s*\[[^\]]*\])+/, "") : line
+    if (movetext.trim()) {
+      hasMovetext = true
+    }
+
+    for (const char of movetext) {
+      if (inComment) {
+        if (char === "}") inComment = false
+      } else if (char === "{") {
+        inComment = true
+      } else if (char === "(") {
+        variationDepth++
+      } else if (char === ")") {
+        variationDepth = Math.max(0, variationDepth - 1)
+      } else if (char === ";") {
+        // Rest-of-line comment
+        break
+      }
+    }
+    current.push(line)
+  }
+
+  if (current.some((line) => line.trim())) {
+    games.push(current.join("\n"))
+  }
+
+  return games
+}
+
+/** Parses every game of a PGN database, skipping games that cannot be read. */
+export function parsePgnGames(input: string): ParsedGame[] {
+  return splitPgnGames(input)
+    .map((gameText) => parsePgnGame(gameText))
+    .filter((game): game is ParsedGame => game !== null && game.moves.length > 0)
+}
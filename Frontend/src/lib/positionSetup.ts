@@ -0,0 +1,175 @@
+import { Chess, validateFen } from "chess.js"
+
+export type SetupPieces = Record<string, string>
+
+export interface CastlingRights {
+  whiteKingside: boolean
+  whiteQueenside: boolean
+  blackKingside: boolean
+  blackQueenside: boolean
+}
+
+export interface PositionSetup {
+  pieces: SetupPieces
+  turn: "w" | "b"
+  castling: CastlingRights
+  enPassant: string | null
+}
+
+const FILES = ["a", "b", "c", "d", "e", "f", "g", "h"]
+
+export const EMPTY_SETUP: PositionSetup = {
+  pieces: {},
+  turn: "w",
+  castling: {
+    whiteKingside: false,
+    whiteQueenside: false,
+    blackKingside: false,
+    blackQueenside: false,
+  },
+  enPassant: null,
+}
+
+function pieceFromFenChar(char: string): string {
+  const color = char === char.toUpperCase() ? "w" : "b"
+  return `${color}${char.toUpperCase()}`
+}
+
+function fenCharFromPiece(pieceType: string): string {
+  const [color, type] = pieceType
+  return color === "w" ? type.toUpperCase() : type.toLowerCase()
+}
+
+export function setupFromFen(fen: string): PositionSetup {
+  const [placement = "", turn = "w", castling = "-", enPassant = "-"] = fen.trim().split(/\s+/)
+  const pieces: SetupPieces = {}
+
+  placement.split("/").forEach((row, rowIndex) => {
+    let fileIndex = 0
+    for (const char of row) {
+      if (/\d/.test(char)) {
+        fileIndex += parseInt(char, 10)
+        continue
+      }
+      pieces[`${FILES[fileIndex]}${8 - rowIndex}`] = pieceFromFenChar(char)
+      fileIndex++
+    }
+  })
+
+  return {
+    pieces,
+    turn: turn === "b" ? "b" : "w",
+    castling: {
+      whiteKingside: castling.includes("K"),
+      whiteQueenside: castling.includes("Q"),
+      blackKingside: castling.includes("k"),
+      blackQueenside: castling.includes("q"),
+    },
+    enPassant: enPassant !== "-" ? enPassant : null,
+  }
+}
+
+export function setupToFen(setup: PositionSetup): string {
+  const rows: string[] = []
+
+  for (let rank = 8; rank >= 1; rank--) {
+    let row = ""
+    let emptyCount = 0
+
+    for (const file of FILES) {
+      const piece = setup.pieces[`${file}${rank}`]
+      if (!piece) {
+        emptyCount++
+        continue
+      }
+      if (emptyCount > 0) {
+        row += emptyCount
+        emptyCount = 0
+      }
+      row += fenCharFromPiece(piece)
+    }
+
+    rows.push(emptyCount > 0 ? row + emptyCount : row)
+  }
+
+  const { whiteKingside, whiteQueenside, blackKingside, blackQueenside } = setup.castling
+  const castling =
+    `${whiteKingside ? "K" : ""}${whiteQueenside ? "Q" : ""}${blackKingside ? "k" : ""}${blackQueenside ? "q" : ""}` || "-"
+
+  return `${rows.join("/")} ${setup.turn} ${castling} ${setup.enPassant ?? "-"} 0 1`
+}
+
+/** Squares a pawn could be captured on en passant, given the side to move. */
+export function getEnPassantCandidates(setup: PositionSetup): string[] {
+  const pawnRank = setup.turn === "w" ? 5 : 4
+  const targetRank = setup.turn === "w" ? 6 : 3
+  const startRank = setup.turn === "w" ? 7 : 2
+  const enemyPawn = setup.turn === "w" ? "bP" : "wP"
+
+  return FILES.filter(
+    (file) =>
+      setup.pieces[`${file}${pawnRank}`] === enemyPawn &&
+      !setup.pieces[`${file}${targetRank}`] &&
+      !setup.pieces[`${file}${startRank}`]
+  ).map((file) => `${file}${targetRank}`)
+}
+
+/**
+ * Checks that a composed position can actually be played from. Returns a
+ * user-facing reason when it cannot.
+ */
+export function validateSetup(setup: PositionSetup): { valid: boolean; error?: string } {
+  const pieces = Object.entries(setup.pieces)
+  const whiteKings = pieces.filter(([, piece]) => piece === "wK").length
+  const blackKings = pieces.filter(([, piece]) => piece === "bK").length
+
+  if (whiteKings !== 1 || blackKings !== 1) {
+    return { valid: false, error: "Each side needs exactly one king." }
+  }
+
+  if (pieces.some(([square, piece]) => piece[1] === "P" && /[18]$/.test(square))) {
+    return { valid: false, error: "Pawns cannot stand on the first or last rank." }
+  }
+
+  const { castling } = setup
+  const hasPiece = (square: string, piece: string) => setup.pieces[square] === piece
+  if (
+    (castling.whiteKingside && !(hasPiece("e1", "wK") && hasPiece("h1", "wR"))) ||
+    (castling.whiteQueenside && !(hasPiece("e1", "wK") && hasPiece("a1", "wR"))) ||
+    (castling.blackKingside && !(hasPiece("e8", "bK") && hasPiece("h8", "bR"))) ||
+    (castling.blackQueenside && !(hasPiece("e8", "bK") && hasPiece("a8", "bR")))
+  ) {
+    return { valid: false, error: "Castling rights require the king and rook on their original squares." }
+  }
+
+  if (setup.enPassant && !getEnPassantCandidates(setup).includes(setup.enPassant)) {
+    return { valid: false, error: `En passant on ${setup.enPassant} is not possible in this position.` }
+  }
+
+  const fen = setupToFen(setup)
+  const fenCheck = validateFen(fen)
+  if (!fenCheck.ok) {
+    return { valid: false, error: fenCheck.error }
+  }
+
+  // The side that just moved cannot have left its own king in check
+  const opponentToMove = setupToFen({ ...setup, turn: setup.turn === "w" ? "b" : "w", enPassant: null })
+  try {
+    if (new Chess(opponentToMove).inCheck()) {
+      return { valid: false, error: "The side not to move is in check." }
+    }
+  } catch {
+    return { valid: false, error: "This position is not valid." }
+  }
+
+  return { valid: true }
+}
+
+export function validateFenInput(fen: string): { valid: boolean; error?: string } {
+  const trimmed = fen.trim()
+  const fenCheck = validateFen(trimmed)
+  if (!fenCheck.ok) {
+    return { valid: false, error: fenCheck.error }
+  }
+  return validateSetup(setupFromFen(trimmed))
+}
@@ -0,0 +1,131 @@
+import { Chess } from "chess.js"
+import { scoreToWinPercent } from "@/lib/evaluation"
+import { REVIEW_SETTINGS } from "@/lib/gameReview"
+import { getLineEnd, getMoveNumber, getNodePath } from "@/lib/moveTree"
+import type { StockfishEngine } from "@/lib/stockfishEngine"
+import type { EngineAnalysis, EngineSettings } from "@/types/engine"
+import type { Puzzle, PuzzleSource, PuzzleTheme } from "@/types/puzzle"
+
+export const PUZZLE_THEME_LABELS: Record<PuzzleTheme, string> = {
+  blunder: "Blunder",
+  missedWin: "Missed win",
+}
+
+// Two lines, so a solver move only counts when the runner-up is clearly worse
+const SOLUTION_SETTINGS: EngineSettings = { ...REVIEW_SETTINGS, depth: 16, multiPv: 2 }
+// Winning chances (0-100) the best move must keep over the second best to be the only answer
+const UNIQUE_MOVE_MARGIN = 15
+
+export interface PuzzleCandidate {
+  id: string
+  nodeId: string
+  fen: string
+  playedSan: string
+  theme: PuzzleTheme
+  moveNumber: number
+}
+
+/** Main-line positions where the side to move blundered or let a win slip in a reviewed game. */
+export function findPuzzleCandidates(source: PuzzleSource): PuzzleCandidate[] {
+  const { tree } = source
+  return getNodePath(tree, getLineEnd(tree, tree.rootId)).flatMap((node) => {
+    const theme = node.classification
+    if ((theme !== "blunder" && theme !== "missedWin") || !node.parentId) return []
+
+    const position = tree.nodes[node.parentId]
+    return [{
+      id: `${source.id}:${position.id}`,
+      nodeId: position.id,
+      fen: position.fen,
+      playedSan: node.san,
+      theme,
+      moveNumber: getMoveNumber(node),
+    }]
+  })
+}
+
+/**
+ * The best move and the engine's reply to it, or null when another move is
+ * about as good. Rejects when the search is cancelled.
+ */
+function findOnlyMove(engine: StockfishEngine, fen: string): Promise<string[] | null> {
+  const isWhiteToMove = fen.split(" ")[1] === "w"
+  const toMover = (percent: number) => (isWhiteToMove ? percent : 100 - percent)
+
+  return new Promise((resolve, reject) => {
+    engine.analyse(
+      fen,
+      SOLUTION_SETTINGS,
+      (analysis: EngineAnalysis) => {
+        if (!analysis.isComplete) return
+        const [best, second] = analysis.lines
+        if (!best?.pvUci.length) {
+          resolve(null)
+          return
+        }
+        const margin = second
+          ? toMover(scoreToWinPercent(best.score)) - toMover(scoreToWinPercent(second.score))
+          : Infinity
+        resolve(margin >= UNIQUE_MOVE_MARGIN ? best.pvUci.slice(0, 2) : null)
+      },
+      () => reject(new Error("Engine search cancelled"))
+    )
+  })
+}
+
+/**
+ * The solution from the puzzle position: the only good move, then the reply
+ * and a second solver move when that one is the only good move too. Empty when
+ * the position has several good moves. Rejects when the search is cancelled.
+ */
+export async function findSolutionLine(engine: StockfishEngine, fen: string): Promise<string[]> {
+  const first = await findOnlyMove(engine, fen)
+  if (!first) return []
+  const [move, reply] = first
+  if (!reply) return [move]
+
+  const chess = new Chess(fen)
+  try {
+    for (const uci of first) chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] })
+  } catch {
+    return [move]
+  }
+  if (chess.isGameOver()) return [move]
+
+  const next = await findOnlyMove(engine, chess.fen())
+  return next ? [move, reply, next[0]] : [move]
+}
+
+export function createPuzzle(source: PuzzleSource, candidate: PuzzleCandidate, solution: string[]): Puzzle {
+  return {
+    ...candidate,
+    gameId: source.id,
+    gameName: source.name,
+    solution,
+    attempts: 0,
+    solved: false,
+    createdAt: Date.now(),
+  }
+}
+
+/**
+ * Whether a solver move is right: the solution's move, or any other move that
+ * mates on the spot.
+ */
+export function isSolutionMove(fen: string, uci: string, expectedUci: string): boolean {
+  if (uci === expectedUci) return true
+  const chess = new Chess(fen)
+  try {
+    chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] })
+  } catch {
+    return false
+  }
+  return chess.isCheckmate()
+}
+
+/** The puzzle after `currentId`, preferring ones not solved yet and wrapping around. */
+export function getNextPuzzle(puzzles: Puzzle[], currentId: string | null): Puzzle | null {
+  const start = puzzles.findIndex((puzzle) => puzzle.id === currentId) + 1
+  const ordered = [...puzzles.slice(start), ...puzzles.slice(0, start)]
+  return ordered.find((puzzle) => !puzzle.solved && puzzle.id !== currentId) ?? ordered[0] ?? null
+}
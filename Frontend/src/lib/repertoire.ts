@@ -0,0 +1,134 @@
+import { DEFAULT_POSITION } from "chess.js"
+import { addSanLine, createMoveTree, getNodePath } from "@/lib/moveTree"
+import type { MoveTree } from "@/types/chess"
+import type { LineSchedule, Repertoire, RepertoireColor, RepertoireLine } from "@/types/repertoire"
+
+export const REPERTOIRE_COLORS: RepertoireColor[] = ["white", "black"]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// A missed line comes back within the same session
+const RELEARN_DELAY_MS = 10 * 60 * 1000
+const INITIAL_EASE = 2.5
+const MIN_EASE = 1.3
+
+export function createRepertoire(color: RepertoireColor): Repertoire {
+  return { color, tree: createMoveTree(), schedule: {}, updatedAt: Date.now() }
+}
+
+/** The node reached by following `sans` from the root, or null if the line leaves the repertoire. */
+export function findRepertoireNode(tree: MoveTree, sans: string[]): string | null {
+  let nodeId = tree.rootId
+  for (const san of sans) {
+    const next = tree.nodes[nodeId].children.find((childId) => tree.nodes[childId].san === san)
+    if (!next) return null
+    nodeId = next
+  }
+  return nodeId
+}
+
+/** Each line runs from the first move to a node without continuations. */
+export function getRepertoireLines(repertoire: Repertoire): RepertoireLine[] {
+  const { tree } = repertoire
+  return Object.values(tree.nodes)
+    .filter((node) => node.id !== tree.rootId && node.children.length === 0)
+    .map((node) => ({ leafId: node.id, moves: getNodePath(tree, node.id) }))
+}
+
+// Lines that were extended or removed no longer need a schedule
+function pruneSchedule(repertoire: Repertoire): Record<string, LineSchedule> {
+  const leafIds = new Set(getRepertoireLines(repertoire).map(({ leafId }) => leafId))
+  return Object.fromEntries(Object.entries(repertoire.schedule).filter(([leafId]) => leafIds.has(leafId)))
+}
+
+/**
+ * Merges a line into the repertoire. Returns null when the line does not start
+ * from the standard position, since repertoires always do.
+ */
+export function addRepertoireLine(repertoire: Repertoire, startFen: string, sans: string[]): Repertoire | null {
+  if (startFen !== DEFAULT_POSITION || sans.length === 0) return null
+
+  const next: Repertoire = { ...structuredClone(repertoire), updatedAt: Date.now() }
+  addSanLine(next.tree, next.tree.rootId, sans)
+  return { ...next, schedule: pruneSchedule(next) }
+}
+
+/** Removes the last move of `sans` and everything after it from the repertoire. */
+export function removeRepertoireLine(repertoire: Repertoire, sans: string[]): Repertoire {
+  const nodeId = findRepertoireNode(repertoire.tree, sans)
+  if (!nodeId || nodeId === repertoire.tree.rootId) return repertoire
+
+  const next: Repertoire = { ...structuredClone(repertoire), updatedAt: Date.now() }
+  const { nodes } = next.tree
+  const parent = nodes[nodes[nodeId].parentId!]
+  parent.children = parent.children.filter((childId) => childId !== nodeId)
+
+  const pending = [nodeId]
+  while (pending.length > 0) {
+    const id = pending.pop()!
+    pending.push(...nodes[id].children)
+    delete nodes[id]
+  }
+  return { ...next, schedule: pruneSchedule(next) }
+}
+
+function getDueDate(repertoire: Repertoire, leafId: string): number {
+  // Lines that were never drilled are due straight away
+  return repertoire.schedule[leafId]?.due ?? 0
+}
+
+export function countDueLines(repertoire: Repertoire, now: number = Date.now()): number {
+  return getRepertoireLines(repertoire).filter(({ leafId }) => getDueDate(repertoire, leafId) <= now).length
+}
+
+/** The most overdue line, or null when every line is scheduled for later. */
+export function getNextDrillLine(repertoire: Repertoire, now: number = Date.now()): RepertoireLine | null {
+  const due = getRepertoireLines(repertoire)
+    .filter(({ leafId }) => getDueDate(repertoire, leafId) <= now)
+    .sort((a, b) => getDueDate(repertoire, a.leafId) - getDueDate(repertoire, b.leafId))
+  return due[0] ?? null
+}
+
+/** When the next line comes due, or null for an empty repertoire. */
+export function getNextDueDate(repertoire: Repertoire): number | null {
+  const dates = getRepertoireLines(repertoire).map(({ leafId }) => getDueDate(repertoire, leafId))
+  return dates.length > 0 ? Math.min(...dates) : null
+}
+
+/**
+ * SM-2 style scheduling: a clean run multiplies the interval by the line's
+ * ease, a mistake resets it and makes the line come back sooner from then on.
+ */
+export function scheduleLine(
+  previous: LineSchedule | undefined,
+  correct: boolean,
+  now: number = Date.now()
+): LineSchedule {
+  const schedule = previous ?? { due: now, interval: 0, ease: INITIAL_EASE, reviews: 0, lapses: 0 }
+
+  if (!correct) {
+    return {
+      due: now + RELEARN_DELAY_MS,
+      interval: 0,
+      ease: Math.max(MIN_EASE, schedule.ease - 0.2),
+      reviews: schedule.reviews + 1,
+      lapses: schedule.lapses + 1,
+    }
+  }
+
+  const interval = schedule.interval === 0 ? 1 : schedule.interval === 1 ? 3 : Math.round(schedule.interval * schedule.ease)
+  return {
+    due: now + interval * DAY_MS,
+    interval,
+    ease: schedule.ease + 0.1,
+    reviews: schedule.reviews + 1,
+    lapses: schedule.lapses,
+  }
+}
+
+export function recordDrillResult(repertoire: Repertoire, leafId: string, correct: boolean): Repertoire {
+  return {
+    ...repertoire,
+    schedule: { ...repertoire.schedule, [leafId]: scheduleLine(repertoire.schedule[leafId], correct) },
+    updatedAt: Date.now(),
+  }
+}
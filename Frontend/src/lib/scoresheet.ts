@@ -0,0 +1,29 @@
+import type { ScoresheetLayout } from "@/types/library"
+
+export interface ScoresheetRegion {
+  // Fractions of the image width and height
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+/** A first guess for a freshly read sheet: one column, one row per move, spanning the whole image. */
+export function createScoresheetLayout(moveCount: number): ScoresheetLayout {
+  return { top: 0, bottom: 1, rows: Math.max(1, moveCount), columns: 1 }
+}
+
+/** The part of the image holding one move number's row, or null when the sheet has no such row. */
+export function getScoresheetRow(layout: ScoresheetLayout, moveNumber: number): ScoresheetRegion | null {
+  const index = moveNumber - 1
+  if (index < 0 || index >= layout.rows * layout.columns) return null
+
+  const column = Math.floor(index / layout.rows)
+  const rowHeight = (layout.bottom - layout.top) / layout.rows
+  return {
+    left: column / layout.columns,
+    top: layout.top + (index % layout.rows) * rowHeight,
+    width: 1 / layout.columns,
+    height: rowHeight,
+  }
+}
@@ -0,0 +1,213 @@
+import { Chess } from "chess.js"
+import stockfishScriptUrl from "stockfish/src/stockfish-17.1-lite-single-03e3232.js?url"
+import stockfishWasmUrl from "stockfish/src/stockfish-17.1-lite-single-03e3232.wasm?url"
+import type { EngineAnalysis, EngineLine, EngineScore, EngineSettings } from "@/types/engine"
+
+export const DEFAULT_ENGINE_SETTINGS: EngineSettings = {
+  limitMode: "depth",
+  depth: 18,
+  moveTimeMs: 3000,
+  multiPv: 3,
+}
+
+interface SearchRequest {
+  fen: string
+  settings: EngineSettings
+  onUpdate: (analysis: EngineAnalysis) => void
+  // Called instead of a final update when the search is superseded, dropped or the engine is terminated
+  onCancel?: () => void
+}
+
+export interface StockfishEngine {
+  analyse: (
+    fen: string,
+    settings: EngineSettings,
+    onUpdate: (analysis: EngineAnalysis) => void,
+    onCancel?: () => void
+  ) => void
+  stop: () => void
+  terminate: () => void
+}
+
+export function uciToSan(fen: string, pvUci: string[]): string[] {
+  const chess = new Chess(fen)
+  const sans: string[] = []
+
+  for (const uci of pvUci) {
+    try {
+      const move = chess.move({
+        from: uci.slice(0, 2),
+        to: uci.slice(2, 4),
+        promotion: uci[4],
+      })
+      sans.push(move.san)
+    } catch {
+      break
+    }
+  }
+
+  return sans
+}
+
+function parseInfoLine(line: string, fen: string): EngineLine | null {
+  const depthMatch = line.match(/\bdepth (\d+)/)
+  const scoreMatch = line.match(/\bscore (cp|mate) (-?\d+)/)
+  const pvMatch = line.match(/\bpv (.+)$/)
+
+  if (!depthMatch || !scoreMatch || !pvMatch) {
+    return null
+  }
+
+  // UCI scores are relative to the side to move
+  const sign = fen.split(" ")[1] === "b" ? -1 : 1
+  const score: EngineScore = {
+    type: scoreMatch[1] === "mate" ? "mate" : "cp",
+    value: parseInt(scoreMatch[2], 10) * sign,
+  }
+  const pvUci = pvMatch[1].trim().split(/\s+/)
+
+  return {
+    multiPv: parseInt(line.match(/\bmultipv (\d+)/)?.[1] ?? "1", 10),
+    depth: parseInt(depthMatch[1], 10),
+    score,
+    pvUci,
+    pvSan: uciToSan(fen, pvUci),
+  }
+}
+
+/**
+ * Runs Stockfish (WASM, single-threaded) in a Web Worker and speaks UCI to it.
+ * Only one search runs at a time; starting a new one stops the current search
+ * and waits for its `bestmove` so stale output never leaks into the new result.
+ * Every search ends with either a complete update or its `onCancel`. If the
+ * worker fails (the script or WASM cannot load), every search is cancelled,
+ * later ones are cancelled straight away and `onError` is called once.
+ */
+export function createStockfishEngine(onError?: () => void): StockfishEngine {
+  const worker = new Worker(`${stockfishScriptUrl}#${encodeURIComponent(stockfishWasmUrl)}`)
+  let isReady = false
+  let hasFailed = false
+  let activeSearch: (SearchRequest & { analysis: EngineAnalysis }) | null = null
+  let pendingSearch: SearchRequest | null = null
+
+  const send = (command: string) => worker.postMessage(command)
+
+  const startSearch = (request: SearchRequest) => {
+    activeSearch = {
+      ...request,
+      analysis: { fen: request.fen, depth: 0, lines: [], bestMove: null, isComplete: false },
+    }
+    send(`setoption name MultiPV value ${request.settings.multiPv}`)
+    send(`position fen ${request.fen}`)
+    send(
+      request.settings.limitMode === "time"
+        ? `go movetime ${request.settings.moveTimeMs}`
+        : `go depth ${request.settings.depth}`
+    )
+  }
+
+  worker.onmessage = (event: MessageEvent<string>) => {
+    const line = String(event.data)
+
+    if (line === "uciok") {
+      send("isready")
+      return
+    }
+
+    if (line === "readyok") {
+      isReady = true
+      if (pendingSearch && !activeSearch) {
+        const request = pendingSearch
+        pendingSearch = null
+        startSearch(request)
+      }
+      return
+    }
+
+    if (!activeSearch) return
+
+    if (line.startsWith("info") && !pendingSearch) {
+      const engineLine = parseInfoLine(line, activeSearch.fen)
+      if (!engineLine) return
+
+      const lines = [...activeSearch.analysis.lines]
+      lines[engineLine.multiPv - 1] = engineLine
+      activeSearch.analysis = {
+        ...activeSearch.analysis,
+        depth: Math.max(activeSearch.analysis.depth, engineLine.depth),
+        lines: lines.filter(Boolean),
+      }
+      activeSearch.onUpdate(activeSearch.analysis)
+      return
+    }
+
+    if (line.startsWith("bestmove")) {
+      const finished = activeSearch
+      activeSearch = null
+
+      if (pendingSearch) {
+        const request = pendingSearch
+        pendingSearch = null
+        startSearch(request)
+        finished.onCancel?.()
+        return
+      }
+
+      finished.onUpdate({
+        ...finished.analysis,
+        bestMove: line.split(/\s+/)[1] ?? null,
+        isComplete: true,
+      })
+    }
+  }
+
+  worker.onerror = (event) => {
+    event.preventDefault()
+    if (hasFailed) return
+    hasFailed = true
+    const unfinished = [activeSearch, pendingSearch]
+    pendingSearch = null
+    activeSearch = null
+    worker.terminate()
+    unfinished.forEach((search) => search?.onCancel?.())
+    onError?.()
+  }
+
+  send("uci")
+
+  return {
+    analyse: (fen, settings, onUpdate, onCancel) => {
+      if (hasFailed) {
+        onCancel?.()
+        return
+      }
+      const replaced = pendingSearch
+      pendingSearch = { fen, settings, onUpdate, onCancel }
+      replaced?.onCancel?.()
+      if (!isReady) return
+
+      if (activeSearch) {
+        send("stop")
+      } else {
+        const request = pendingSearch
+        pendingSearch = null
+        startSearch(request)
+      }
+    },
+    stop: () => {
+      const dropped = pendingSearch
+      pendingSearch = null
+      dropped?.onCancel?.()
+      if (activeSearch) {
+        send("stop")
+      }
+    },
+    terminate: () => {
+      const unfinished = [activeSearch, pendingSearch]
+      pendingSearch = null
+      activeSearch = null
+      worker.terminate()
+      unfinished.forEach((search) => search?.onCancel?.())
+    },
+  }
+}
@@ -0,0 +1,66 @@
+const PIECE_ORDER = "PNBRQKpnbrqk"
+const MASK_64 = (1n << 64n) - 1n
+
+// SplitMix64 with a fixed seed, so hashes stay identical across sessions and stored indexes stay valid
+function createKeyGenerator(seed: bigint): () => bigint {
+  let state = seed
+  return () => {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK_64
+    let value = state
+    value = ((value ^ (value >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64
+    value = ((value ^ (value >> 27n)) * 0x94d049bb133111ebn) & MASK_64
+    return value ^ (value >> 31n)
+  }
+}
+
+const nextKey = createKeyGenerator(0x4e463350726fn)
+const PIECE_KEYS = Array.from({ length: 12 * 64 }, nextKey)
+const CASTLING_KEYS: Record<string, bigint> = { K: nextKey(), Q: nextKey(), k: nextKey(), q: nextKey() }
+const EN_PASSANT_KEYS = Array.from({ length: 8 }, nextKey)
+const BLACK_TO_MOVE_KEY = nextKey()
+
+/**
+ * Zobrist hash of the position in `fen` as a hex string. Move counters are
+ * ignored, and the en passant square only counts when a capture is actually
+ * possible, so transpositions and repetitions hash the same.
+ */
+export function zobristHash(fen: string): string {
+  const [placement = "", turn = "w", castling = "-", enPassant = "-"] = fen.trim().split(/\s+/)
+  const board: Array<string | null> = new Array(64).fill(null)
+  let hash = 0n
+
+  placement.split("/").forEach((row, rowIndex) => {
+    let file = 0
+    for (const char of row) {
+      if (/\d/.test(char)) {
+        file += parseInt(char, 10)
+        continue
+      }
+      const square = (7 - rowIndex) * 8 + file
+      const piece = PIECE_ORDER.indexOf(char)
+      if (piece >= 0 && square >= 0 && square < 64) {
+        board[square] = char
+        hash ^= PIECE_KEYS[piece * 64 + square]
+      }
+      file++
+    }
+  })
+
+  for (const right of castling) {
+    if (CASTLING_KEYS[right]) hash ^= CASTLING_KEYS[right]
+  }
+
+  if (/^[a-h][36]$/.test(enPassant)) {
+    const file = enPassant.charCodeAt(0) - 97
+    const capturerRank = turn === "w" ? 4 : 3
+    const capturer = turn === "w" ? "P" : "p"
+    const canCapture = [file - 1, file + 1].some(
+      (adjacent) => adjacent >= 0 && adjacent < 8 && board[capturerRank * 8 + adjacent] === capturer
+    )
+    if (canCapture) hash ^= EN_PASSANT_KEYS[file]
+  }
+
+  if (turn === "b") hash ^= BLACK_TO_MOVE_KEY
+
+  return hash.toString(16).padStart(16, "0")
+}
@@ -1,6 +1,22 @@
+import type { EngineScore } from "@/types/engine"
+
+export type MoveClassification =
+  | "best"
+  | "good"
+  | "inaccuracy"
+  | "mistake"
+  | "blunder"
+  | "missedWin"
+
+export type PromotionPiece = "q" | "r" | "b" | "n"
+
 export interface PlayedMove {
   san: string
   isCustom: boolean
+  nodeId?: string
+  nags?: number[]
+  evaluation?: EngineScore
+  classification?: MoveClassification
 }
 
 export interface MoveHistoryItem {
@@ -14,11 +30,104 @@ export interface LastMove {
   to: string
 }
 
+// PGN colour letters used by `[%cal]` / `[%csl]`: green, red, yellow, blue
+export type AnnotationColor = "G" | "R" | "Y" | "B"
+
+export interface ArrowAnnotation {
+  from: string
+  to: string
+  color: AnnotationColor
+}
+
+export interface SquareAnnotation {
+  square: string
+  color: AnnotationColor
+}
+
+export interface BoardAnnotations {
+  arrows: ArrowAnnotation[]
+  squares: SquareAnnotation[]
+}
+
+export interface MoveNode {
+  id: string
+  parentId: string | null
+  children: string[]
+  san: string
+  fen: string
+  ply: number
+  lastMove: LastMove | null
+  comment?: string
+  startingComment?: string
+  nags?: number[]
+  evaluation?: EngineScore
+  bestMoveUci?: string
+  classification?: MoveClassification
+  annotations?: BoardAnnotations
+}
+
+export interface MoveTree {
+  rootId: string
+  nodes: Record<string, MoveNode>
+  nextId: number
+}
+
+export interface VariationOption {
+  nodeId: string
+  san: string
+  moveNumber: number
+  isWhite: boolean
+}
+
+export interface PgnMove {
+  san: string
+  nags: number[]
+  comment?: string
+  startingComment?: string
+  variations: PgnMove[][]
+}
+
+export interface ParsedGame {
+  headers: Record<string, string>
+  moves: PgnMove[]
+  result: string
+  comment?: string
+}
+
+export interface GameMetadata {
+  event?: string
+  site?: string
+  date?: string
+  round?: string
+  white?: string
+  black?: string
+  result?: string
+  whiteElo?: string
+  blackElo?: string
+  timeControl?: string
+  eco?: string
+  opening?: string
+  extraTags?: Record<string, string>
+}
+
+export interface Opening {
+  eco: string
+  name: string
+}
+
 export interface GameState {
   fen: string
   pgn: string
   moveHistory: MoveHistoryItem[]
   currentMoveIndex: number
+  currentNodeId: string
+  variations: VariationOption[]
+  comment?: string | null
+  evaluation?: EngineScore | null
+  annotations?: BoardAnnotations | null
+  // Deepest named opening position on the way to the current one
+  opening?: Opening | null
+  metadata: GameMetadata
   checkSquare?: string | null
   lastMove?: LastMove | null
 }
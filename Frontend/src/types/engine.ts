@@ -0,0 +1,35 @@
+export interface EngineScore {
+  type: "cp" | "mate"
+  // Always from White's perspective: positive favours White
+  value: number
+}
+
+export interface EngineLine {
+  multiPv: number
+  depth: number
+  score: EngineScore
+  pvUci: string[]
+  pvSan: string[]
+}
+
+export interface EngineAnalysis {
+  fen: string
+  depth: number
+  lines: EngineLine[]
+  bestMove: string | null
+  isComplete: boolean
+}
+
+export type EngineLimitMode = "depth" | "time"
+
+export interface EngineSettings {
+  limitMode: EngineLimitMode
+  depth: number
+  moveTimeMs: number
+  multiPv: number
+}
+
+export interface ReviewPosition {
+  nodeId: string
+  fen: string
+}
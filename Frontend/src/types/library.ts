@@ -0,0 +1,51 @@
+import type { GameMetadata, MoveTree, Opening } from "@/types/chess"
+
+export type GameSource = "pgn" | "csv" | "image" | "fen"
+
+// Where the move rows sit on a scoresheet image, as fractions of its height
+export interface ScoresheetLayout {
+  top: number
+  bottom: number
+  // Rows per column; two-column sheets continue with the next move number at the top right
+  rows: number
+  columns: 1 | 2
+}
+
+// The photo a game was read from, kept to check the transcription against the handwriting
+export interface Scoresheet {
+  image: Blob
+  layout: ScoresheetLayout
+}
+
+export interface LibraryGame {
+  id: string
+  name: string
+  source: GameSource
+  metadata: GameMetadata
+  // The full move tree, including variations, comments, drawings and engine analysis
+  tree: MoveTree
+  // Free-form labels such as "club championship" or "to review"
+  tags?: string[]
+  scoresheet?: Scoresheet
+  createdAt: number
+  updatedAt: number
+}
+
+export type LibraryGameSummary = Omit<LibraryGame, "tree"> & {
+  moveCount: number
+  // Named from the main line with the bundled table; the game's own ECO and Opening tags stay in metadata
+  identifiedOpening: Opening | null
+}
+
+// One position reached on a saved game's main line, indexed by its Zobrist hash
+export interface PositionEntry {
+  gameId: string
+  nodeId: string
+  hash: string
+  // Half-moves from the start of the game
+  ply: number
+  moveNumber: number
+  turn: "w" | "b"
+  // The move the game continued with, if any
+  nextSan?: string
+}
@@ -0,0 +1,26 @@
+import type { LibraryGame } from "@/types/library"
+
+export type PuzzleTheme = "blunder" | "missedWin"
+
+export interface Puzzle {
+  // `${gameId}:${nodeId}`, so scanning a game twice never duplicates its puzzles
+  id: string
+  gameId: string
+  gameName: string
+  // The position before the mistake, where the puzzle starts
+  nodeId: string
+  fen: string
+  // UCI moves, starting with the solver's; odd indexes are the opponent's replies
+  solution: string[]
+  // The move actually played in the game
+  playedSan: string
+  theme: PuzzleTheme
+  moveNumber: number
+  attempts: number
+  // Solved at least once without hints or mistakes
+  solved: boolean
+  createdAt: number
+  lastAttemptAt?: number
+}
+
+export type PuzzleSource = Pick<LibraryGame, "id" | "name" | "tree">
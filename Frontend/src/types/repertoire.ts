@@ -0,0 +1,27 @@
+import type { MoveNode, MoveTree } from "@/types/chess"
+
+export type RepertoireColor = "white" | "black"
+
+// Spaced-repetition state of one repertoire line
+export interface LineSchedule {
+  due: number
+  // Days until the next review after a correct run
+  interval: number
+  ease: number
+  reviews: number
+  lapses: number
+}
+
+export interface Repertoire {
+  color: RepertoireColor
+  // Every line, merged from the standard starting position
+  tree: MoveTree
+  // Keyed by the id of the node each line ends on
+  schedule: Record<string, LineSchedule>
+  updatedAt: number
+}
+
+export interface RepertoireLine {
+  leafId: string
+  moves: MoveNode[]
+}